@@ -0,0 +1,1334 @@
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
+import { toast } from "sonner";
+import { DataTable } from "@/components/Editor/DataTable";
+import { safeParseJSON, coerceValue, createDocument, applyCellUpdates, type CellUpdate, type CellValue, type TableRow, type ColumnType, type DocumentState } from "@/lib/data-utils";
+import { SecondaryButton } from "@/components/ui/secondary-button";
+import { PrimaryButton } from "@/components/ui/primary-button";
+import { Import, Download, Trash2, FileJson, Copy, ClipboardPaste, Shield, WifiOff, Undo, Redo, Command, Columns3, ArrowDownWideNarrow, Filter, Search, Sheet, Eye, FileText, History, Save, SaveAll, FileCheck, FileCode } from "lucide-react";
+import { ReorderColumnsDialog } from "@/components/Editor/ReorderColumnsDialog";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { useKeyboardShortcuts } from "@/hooks/use-keyboard-shortcuts";
+import { trimHistory, useUndoRedo, type Patch, type UndoRedoState } from "@/hooks/use-undo-redo";
+import { DebugPanel } from "@/components/Debug/DebugPanel";
+import { ToolbarButton } from "@/components/ui/toolbar-button";
+import { nextSortConfig, sortRowIndices, type SortConfig } from "@/lib/sort-utils";
+import { buildMatcher, cellRankInView, findMatches, inViewOrder, replaceInCells, toReplacement, type SearchOptions } from "@/lib/search-utils";
+import { SearchPanel } from "@/components/Editor/SearchPanel";
+import { extractArray, parseImportText } from "@/lib/import-utils";
+import { formatPath, setAtPath, type ArrayCandidate, type DocumentEnvelope } from "@/lib/json-path-utils";
+import { ArrayPathDialog } from "@/components/Editor/ArrayPathDialog";
+import { DEFAULT_JSON_FORMAT, describeJsonFormat, formatJson, type JsonFormat } from "@/lib/json-format-utils";
+import { DEFAULT_CSV_EXPORT_OPTIONS, toCSV, type CSVExportOptions } from "@/lib/csv-utils";
+import { downloadFile, pickFileToOpen, pickFileToSave, supportsFileSystemAccess, withExtension, writeToHandle, type OpenedFile } from "@/lib/file-utils";
+import { describeLineErrors, toJSONL, type LineError } from "@/lib/jsonl-utils";
+import { ExportDialog } from "@/components/Editor/ExportDialog";
+import { HistoryPanel } from "@/components/Editor/HistoryPanel";
+import { JsonSchemaDialog } from "@/components/Editor/JsonSchemaDialog";
+import { SchemaStatus } from "@/components/Editor/SchemaStatus";
+import { SchemaExportDialog } from "@/components/Editor/SchemaExportDialog";
+import { TypeReportDialog } from "@/components/Editor/TypeReportDialog";
+import { ConvertColumnDialog } from "@/components/Editor/ConvertColumnDialog";
+import { columnTypeForTarget, convertColumn, describeConversion, type ConvertTarget, type FailBehaviour } from "@/lib/convert-utils";
+import { listCellErrors, validateRow, type CellError, type JsonSchemaObject } from "@/lib/json-schema-utils";
+import { ImportModeDialog } from "@/components/Editor/ImportModeDialog";
+import { mergeRows, type MergeMode } from "@/lib/merge-utils";
+import { deleteValue, loadValue, saveValue } from "@/lib/session-store";
+
+// The workspace as persisted in IndexedDB: the document with its undo history, and what it was imported from
+interface WorkspaceSession {
+  version: 1;
+  savedAt: number;
+  history: UndoRedoState<DocumentState>;
+  envelope: DocumentEnvelope | null;
+  jsonFormat: JsonFormat | null;
+  sortConfig: SortConfig | null;
+  fileName: string | null;
+  // Handles survive in IndexedDB; writing to one again needs the user's permission
+  fileHandle: FileSystemFileHandle | null;
+  // Stored in the same record as the history so it stays the same object as the patch it marks
+  savedMarker: Patch | null;
+  jsonSchema?: JsonSchemaObject | null;
+  clearedOrigin?: ClearedOrigin | null;
+}
+
+// What Clear workspace unlinked, put back when the clear is undone.
+// `before` is the step before the Clear step (null: it was the first), stored with the history so it stays the same object.
+interface ClearedOrigin {
+  before: Patch | null;
+  fileName: string | null;
+  fileHandle: FileSystemFileHandle | null;
+  envelope: DocumentEnvelope | null;
+  jsonFormat: JsonFormat | null;
+  sortConfig: SortConfig | null;
+  savedMarker: Patch | null;
+}
+
+// Where a loaded document came from. Everything is optional: pasted data has no file.
+interface DocumentOrigin {
+  fileName?: string;
+  handle?: FileSystemFileHandle;
+  envelope?: DocumentEnvelope;
+  jsonFormat?: JsonFormat;
+}
+
+// Parsed rows on their way into the tab, with what the import toast and the merge dialog need
+interface IncomingRows {
+  rows: TableRow[];
+  source: string;
+  /** " (CSV)", " (data.items)"… */
+  formatLabel: string;
+  origin: DocumentOrigin;
+  lineErrors?: LineError[];
+  opened?: OpenedFile;
+}
+
+// The first tab. Its session key is the one used before there were tabs, so older sessions open in it.
+export const DEFAULT_TAB_ID = "workspace";
+// Undo steps beyond this (estimated) size are not persisted
+const PERSISTED_HISTORY_BUDGET = 16 * 1024 * 1024;
+// Stable empty rows for the merge dialog while it closes, so its memoised preview isn't recomputed every render
+const NO_ROWS: TableRow[] = [];
+const LEGACY_STORAGE_KEYS = ["jte-data", "jte-envelope", "jte-format"];
+const CLEAR_LABEL = "Clear workspace";
+
+// The toast after an import, merged or not: JSON Lines that couldn't be parsed were skipped, which turns it into a warning
+const reportImport = (message: string, lineErrors?: LineError[], description?: string) => {
+  if (!lineErrors?.length) {
+    toast.success(message, { description });
+    return;
+  }
+  const skipped = lineErrors.slice(0, 3).map(e => `Line ${e.line}: ${e.message}`).join("; ");
+  toast.warning(`${message} Skipped ${describeLineErrors(lineErrors)} (invalid JSON).`, {
+    description: description ? `${skipped}. ${description}` : skipped,
+  });
+};
+
+// Legacy: workspaces saved to localStorage before sessions moved to IndexedDB.
+// Read once (into the first tab) as a fallback when there is no session yet.
+const loadInitialData = (): TableRow[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const saved = localStorage.getItem("jte-data");
+    if (!saved) return [];
+    const parsed = safeParseJSON(saved);
+    return parsed || [];
+  } catch (e) {
+    console.error("Failed to load data from local storage", e);
+    return [];
+  }
+};
+
+// The wrapper object the rows were imported from (see DocumentEnvelope)
+const loadInitialEnvelope = (): DocumentEnvelope | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    const saved = localStorage.getItem("jte-envelope");
+    return saved ? JSON.parse(saved) : null;
+  } catch (e) {
+    console.error("Failed to load envelope from local storage", e);
+    return null;
+  }
+};
+
+const loadInitialFormat = (): JsonFormat | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    const saved = localStorage.getItem("jte-format");
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+};
+
+interface DocumentEditorProps {
+  /** Also the key of the tab's persisted session. */
+  tabId: string;
+  /** Only the active tab is shown and handles shortcuts and global paste; the others stay mounted to keep their state. */
+  isActive: boolean;
+  /** A file to import when the tab opens (tabs created by dropping or opening several files). */
+  initialFile?: OpenedFile;
+  /** Reports the tab title: the file name, "Untitled", or null while the tab is empty. */
+  onTitleChange: (tabId: string, title: string | null) => void;
+  /** Opens files in new tabs. */
+  onOpenFiles: (files: OpenedFile[]) => void;
+}
+
+export function DocumentEditor({ tabId, isActive, initialFile, onTitleChange, onOpenFiles }: DocumentEditorProps) {
+  const isDefaultTab = tabId === DEFAULT_TAB_ID;
+
+  // State
+  // Initialize with data from local storage if available
+  const [initialData] = useState<TableRow[]>(() => isDefaultTab ? loadInitialData() : []);
+
+  // Rows, column order, schema and hidden columns live in one undoable document (columns/schema inferred from the initial data)
+  const [doc, setDoc, undo, redo, reset, canUndo, canRedo, history, jumpTo, restore] = useUndoRedo<DocumentState>(createDocument(initialData), 100);
+  // hiddenColumns are left out of the table and CSV export, but kept in the data
+  const { rows: data, columns, schema, hiddenColumns } = doc;
+
+  // Row-only edits. Every history step carries a label for the history panel and undo toasts.
+  const setData = useCallback((rows: TableRow[] | ((prev: TableRow[]) => TableRow[]), label: string) => {
+    setDoc(prev => {
+      const nextRows = typeof rows === "function" ? rows(prev.rows) : rows;
+      return nextRows === prev.rows ? prev : { ...prev, rows: nextRows };
+    }, label);
+  }, [setDoc]);
+
+  const [isAddColumnOpen, setIsAddColumnOpen] = useState(false);
+  const [isReorderOpen, setIsReorderOpen] = useState(false); // Reorder Modal State
+  const [isExportOpen, setIsExportOpen] = useState(false); // CSV/TSV export options
+  const [envelope, setEnvelope] = useState<DocumentEnvelope | null>(() => isDefaultTab ? loadInitialEnvelope() : null);
+  // Indentation and line endings of the imported JSON file (null: not imported from JSON, use the default)
+  const [jsonFormat, setJsonFormat] = useState<JsonFormat | null>(() => isDefaultTab ? loadInitialFormat() : null);
+  // Name of the file the document was opened from or last saved as (null for pasted data and samples).
+  // Also the name downloads fall back to.
+  const [fileName, setFileName] = useState<string | null>(null);
+  // Where Save writes to, when the browser supports the File System Access API
+  const [fileHandle, setFileHandle] = useState<FileSystemFileHandle | null>(null);
+  // The last undo step at the time of the last open or save (null: the base state).
+  // Comparing against the current last step means undoing back to the saved state clears the dirty flag.
+  const [savedMarker, setSavedMarker] = useState<Patch | null>(null);
+  const [clearedOrigin, setClearedOrigin] = useState<ClearedOrigin | null>(null);
+  // A JSON document with several arrays of objects, waiting for the user to pick one
+  const [pendingImport, setPendingImport] = useState<{ document: unknown; candidates: ArrayCandidate[]; defaultPath: string; source: string; opened?: OpenedFile; jsonFormat?: JsonFormat } | null>(null);
+  // Rows imported into a tab that already has a document wait here for the replace/append/upsert choice
+  const [pendingMerge, setPendingMerge] = useState<IncomingRows | null>(null);
+  const visibleColumns = useMemo(() => columns.filter(c => !hiddenColumns.includes(c)), [columns, hiddenColumns]);
+  const [isFilterOpen, setIsFilterOpen] = useState(false); // Filter row under the header
+  const [isSearchOpen, setIsSearchOpen] = useState(false); // Find & replace panel
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false); // Undo history side panel
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>({ query: "", regex: false, caseSensitive: false });
+  const [activeMatchIdx, setActiveMatchIdx] = useState(0);
+  // Attached JSON Schema: not part of the undo history, it stays when the data is replaced
+  const [jsonSchema, setJsonSchema] = useState<JsonSchemaObject | null>(null);
+  const [isSchemaOpen, setIsSchemaOpen] = useState(false);
+  const [isSchemaExportOpen, setIsSchemaExportOpen] = useState(false);
+  const [typeReportColumn, setTypeReportColumn] = useState<string | null>(null);
+  const [convertRequest, setConvertRequest] = useState<{ col: string; target: ConvertTarget } | null>(null);
+  // A cell to bring into view, e.g. an outlier picked in the type report
+  const [revealCell, setRevealCell] = useState<{ row: number; col: string } | null>(null);
+  const [activeError, setActiveError] = useState<CellError | null>(null);
+  // Rows in the order the table shows them (null until the table reports it: data order)
+  const [viewOrder, setViewOrder] = useState<number[] | null>(null);
+
+  // --- Phase 1: Column Management Logic ---
+
+  // Helper: Strictly validate column names
+  const isValidColumnName = (name: string, existingCols: string[]): { valid: boolean; error?: string } => {
+    const trimmed = name.trim();
+    if (!trimmed) return { valid: false, error: "Column name cannot be empty." };
+    if (trimmed.includes(" ")) return { valid: false, error: "Column name cannot contain spaces." };
+    if (existingCols.includes(trimmed)) return { valid: false, error: "Column name must be unique." };
+    return { valid: true };
+  };
+
+  const handleAddColumn = useCallback((name: string, type: ColumnType, defaultValue?: CellValue, index?: number) => {
+    const validation = isValidColumnName(name, columns);
+    if (!validation.valid) {
+      toast.error(validation.error);
+      return;
+    }
+
+    setDoc(prev => {
+      // Add to columns list (at the end, or at a given position when inserting left/right)
+      const nextColumns = [...prev.columns];
+      nextColumns.splice(index ?? nextColumns.length, 0, name);
+      return {
+        ...prev,
+        columns: nextColumns,
+        // Without a default the rows don't get the key: their cells show as missing and export without it
+        rows: defaultValue === undefined ? prev.rows : prev.rows.map(row => ({ ...row, [name]: defaultValue })),
+        schema: { ...prev.schema, [name]: type },
+      };
+    }, `Add column "${name}"`);
+
+    toast.success(`Column "${name}" added`);
+  }, [columns, setDoc]);
+
+  const handleDeleteColumn = (colName: string) => {
+    // Remove the column from the structure and its key from ALL rows, as one undo step
+    setDoc(prev => {
+      const nextSchema = { ...prev.schema };
+      delete nextSchema[colName];
+      return {
+        rows: prev.rows.map(row => {
+          if (!(colName in row)) return row;
+          const newRow = { ...row };
+          delete newRow[colName];
+          return newRow;
+        }),
+        columns: prev.columns.filter(c => c !== colName),
+        schema: nextSchema,
+        hiddenColumns: prev.hiddenColumns.filter(c => c !== colName),
+      };
+    }, `Delete column "${colName}"`);
+    toast.success(`Column "${colName}" deleted.`);
+  };
+
+  const handleRenameColumn = (oldName: string, newName: string) => {
+    const validation = isValidColumnName(newName, columns);
+    if (!validation.valid) {
+      toast.error(validation.error);
+      return;
+    }
+
+    setDoc(prev => {
+      // Move the schema entry, preserving its type
+      const nextSchema = { ...prev.schema };
+      const type = nextSchema[oldName] || 'text';
+      delete nextSchema[oldName];
+      nextSchema[newName] = type;
+
+      return {
+        // Rebuild each row so the renamed key keeps its position (export preserves key order)
+        rows: prev.rows.map(row => {
+          if (!(oldName in row)) return row;
+          const newRow: TableRow = {};
+          for (const key of Object.keys(row)) {
+            newRow[key === oldName ? newName : key] = row[key];
+          }
+          return newRow;
+        }),
+        columns: prev.columns.map(c => c === oldName ? newName : c),
+        schema: nextSchema,
+        hiddenColumns: prev.hiddenColumns.map(c => c === oldName ? newName : c),
+      };
+    }, `Rename "${oldName}" to "${newName}"`);
+    toast.success(`Renamed "${oldName}" to "${newName}".`);
+  };
+
+  // Picking a type in the column menu opens the conversion preview
+  const handleChangeColumnType = (colName: string, type: ColumnType) => {
+    setConvertRequest({ col: colName, target: type === "auto" ? "text" : type });
+  };
+
+  // Data and schema change together, as one undo step
+  const handleConvertColumn = (colName: string, target: ConvertTarget, onFail: FailBehaviour) => {
+    const result = convertColumn(data, colName, target, onFail);
+    const type = columnTypeForTarget(target);
+    setDoc(prev => ({ ...prev, rows: result.rows, schema: { ...prev.schema, [colName]: type } }), `Convert "${colName}" to ${target}`);
+
+    const message = describeConversion(colName, target, result.failures.length, onFail);
+    if (result.failures.length > 0) toast.warning(message);
+    else toast.success(message);
+  };
+
+  const handleHideColumn = (colName: string) => {
+    setDoc(prev => ({ ...prev, hiddenColumns: [...prev.hiddenColumns, colName] }), `Hide column "${colName}"`);
+    toast.info(`Column "${colName}" hidden.`);
+  };
+
+  const handleShowAllColumns = () => {
+    setDoc(prev => ({ ...prev, hiddenColumns: [] }), "Show hidden columns");
+  };
+
+  // The table inserts relative to the visible columns; map that position back into the full column order
+  const toColumnIndex = (visibleIndex: number): number => {
+    if (visibleIndex < visibleColumns.length) return columns.indexOf(visibleColumns[visibleIndex]);
+    return visibleColumns.length > 0 ? columns.indexOf(visibleColumns[visibleColumns.length - 1]) + 1 : columns.length;
+  };
+
+  const handleReorderColumns = (newOrder: string[]) => {
+    setDoc(prev => ({ ...prev, columns: newOrder }), "Reorder columns");
+    toast.success("Columns reordered.");
+  };
+
+  const [sortConfig, setSortConfig] = useState<SortConfig | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Restore the previous session (if any) once on load. Nothing is saved until this has finished.
+  const [isRestoring, setIsRestoring] = useState(true);
+  useEffect(() => {
+    let cancelled = false;
+    loadValue<WorkspaceSession>(tabId)
+      .then(session => {
+        if (cancelled || !session || session.version !== 1) return;
+        const { past, present, future } = session.history;
+        if (present.rows.length === 0 && past.length === 0 && future.length === 0) return;
+        restore(session.history);
+        setEnvelope(session.envelope);
+        setJsonFormat(session.jsonFormat);
+        setSortConfig(session.sortConfig);
+        setFileName(session.fileName ?? null);
+        setFileHandle(session.fileHandle ?? null);
+        setSavedMarker(session.savedMarker ?? null);
+        setJsonSchema(session.jsonSchema ?? null);
+        setClearedOrigin(session.clearedOrigin ?? null);
+        const savedAt = new Date(session.savedAt).toLocaleString([], { dateStyle: "medium", timeStyle: "short" });
+        toast.info(`Restored session from ${savedAt}.`, {
+          duration: 8000,
+          action: {
+            label: "Start fresh",
+            onClick: () => {
+              reset(createDocument([]));
+              setEnvelope(null);
+              setJsonFormat(null);
+              setSortConfig(null);
+              setFileName(null);
+              setFileHandle(null);
+              setSavedMarker(null);
+              setJsonSchema(null);
+              setClearedOrigin(null);
+            },
+          },
+        });
+      })
+      .catch(e => console.error("Failed to restore session", e))
+      .finally(() => {
+        if (!cancelled) setIsRestoring(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [tabId, restore, reset]);
+
+  // Persistence Effect (debounced: a large document takes a moment to store)
+  // An emptied tab keeps its session while it has undo steps, so a cleared workspace can still be undone after a reload
+  useEffect(() => {
+    if (isRestoring) return;
+    const timer = setTimeout(() => {
+      const save = history.present.rows.length > 0 || history.past.length > 0 || history.future.length > 0
+        ? saveValue(tabId, {
+          version: 1,
+          savedAt: Date.now(),
+          history: trimHistory(history, PERSISTED_HISTORY_BUDGET),
+          envelope,
+          jsonFormat,
+          sortConfig,
+          fileName,
+          fileHandle,
+          savedMarker,
+          jsonSchema,
+          clearedOrigin,
+        } satisfies WorkspaceSession)
+        : deleteValue(tabId);
+      save
+        .then(() => {
+          if (isDefaultTab) LEGACY_STORAGE_KEYS.forEach(key => localStorage.removeItem(key));
+        })
+        .catch(e => console.error("Failed to save session", e));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [tabId, isDefaultTab, history, envelope, jsonFormat, sortConfig, fileName, fileHandle, savedMarker, jsonSchema, clearedOrigin, isRestoring]);
+
+  const currentMarker = history.past[history.past.length - 1] ?? null;
+  const isDirty = data.length > 0 && currentMarker !== savedMarker;
+
+  const title = data.length > 0 ? fileName ?? "Untitled" : null;
+  useEffect(() => {
+    // The tab index already has the last saved title; don't blank it while the session loads
+    if (!isRestoring) onTitleChange(tabId, title);
+  }, [tabId, title, isRestoring, onTitleChange]);
+
+  // Shared by every import path: the imported rows become a new baseline (cannot undo to the previous document)
+  const loadRows = useCallback((rows: TableRow[], label: string, origin: DocumentOrigin = {}) => {
+    reset(createDocument(rows), label); // Infer columns and schema
+    setFileName(origin.fileName ?? null);
+    setFileHandle(origin.handle ?? null);
+    setEnvelope(origin.envelope ?? null);
+    setJsonFormat(origin.jsonFormat ?? null);
+    setSortConfig(null);
+    setSavedMarker(null);
+    setClearedOrigin(null);
+  }, [reset]);
+
+  // Loads the rows into an empty tab; otherwise asks how to combine them with the open document
+  const receiveRows = useCallback((incoming: IncomingRows) => {
+    if (data.length > 0) {
+      setPendingMerge(incoming);
+      return;
+    }
+    const { rows, source, formatLabel, origin, lineErrors } = incoming;
+    loadRows(rows, `Opened ${source}`, origin);
+    reportImport(`Imported ${rows.length} rows from ${source}${formatLabel}.`, lineErrors);
+  }, [data.length, loadRows]);
+
+  // Parses JSON or CSV/TSV text and imports it. Returns false (after telling the user) when nothing could be parsed.
+  const importText = useCallback((text: string, source: string, opened?: OpenedFile): boolean => {
+    const result = parseImportText(text, opened?.file.name);
+    if (!result) {
+      toast.error(`Could not import ${source}. Expected JSON (an array of objects), JSON Lines or CSV/TSV with a header row.`);
+      return false;
+    }
+    if (result.candidates) {
+      setPendingImport({
+        document: result.document,
+        candidates: result.candidates,
+        defaultPath: formatPath(result.envelope?.path ?? []),
+        source,
+        opened,
+        jsonFormat: result.jsonFormat,
+      });
+      return true;
+    }
+    receiveRows({
+      rows: result.rows,
+      source,
+      formatLabel: result.format === "csv" ? " (CSV)"
+        : result.format === "jsonl" ? " (JSON Lines)"
+        : result.envelope ? ` (${formatPath(result.envelope.path)})` : "",
+      origin: {
+        fileName: opened?.file.name,
+        handle: opened?.handle,
+        envelope: result.envelope,
+        jsonFormat: result.jsonFormat,
+      },
+      lineErrors: result.lineErrors,
+      opened,
+    });
+    return true;
+  }, [receiveRows]);
+
+  const handleSelectArray = (candidate: ArrayCandidate) => {
+    if (!pendingImport) return;
+    const { rows, envelope: sourceEnvelope } = extractArray(pendingImport.document, candidate.path);
+    receiveRows({
+      rows,
+      source: pendingImport.source,
+      formatLabel: ` (${formatPath(candidate.path)})`,
+      origin: {
+        fileName: pendingImport.opened?.file.name,
+        handle: pendingImport.opened?.handle,
+        envelope: sourceEnvelope,
+        jsonFormat: pendingImport.jsonFormat,
+      },
+      opened: pendingImport.opened,
+    });
+    setPendingImport(null);
+  };
+
+  const handleMerge = (mode: MergeMode, key?: string) => {
+    if (!pendingMerge) return;
+    const { rows, source, formatLabel, origin, lineErrors } = pendingMerge;
+    setPendingMerge(null);
+    if (mode === "replace") {
+      loadRows(rows, `Opened ${source}`, origin);
+      reportImport(`Imported ${rows.length} rows from ${source}${formatLabel}.`, lineErrors);
+      return;
+    }
+    // Appending or updating keeps the document's file, format and history: one undoable step
+    const result = mergeRows(doc, rows, mode, key);
+    setDoc(result.document, mode === "append" ? `Append ${result.added} rows from ${source}` : `Update rows by "${key}" from ${source}`);
+    reportImport(
+      mode === "append"
+        ? `Appended ${result.added} rows from ${source}${formatLabel}.`
+        : `Updated ${result.updated} rows and added ${result.added} from ${source}${formatLabel}.`,
+      lineErrors,
+      result.newColumns.length > 0 ? `New columns: ${result.newColumns.join(", ")}` : undefined
+    );
+  };
+
+  const importFile = useCallback((opened: OpenedFile) => {
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      importText(event.target?.result as string, opened.file.name, opened);
+    };
+    reader.readAsText(opened.file);
+  }, [importText]);
+
+  // Open through the native dialog where available, so Save can write back to the file
+  const handleOpen = async () => {
+    if (!supportsFileSystemAccess()) {
+      fileInputRef.current?.click();
+      return;
+    }
+    try {
+      const opened = await pickFileToOpen();
+      if (opened) importFile(opened);
+    } catch (e) {
+      console.error("Failed to open file", e);
+      toast.error("Could not open the file.");
+    }
+  };
+
+  // Tabs opened with a file import it once (refs survive StrictMode's double effects)
+  const initialFileRef = useRef(initialFile);
+  useEffect(() => {
+    const file = initialFileRef.current;
+    if (!file) return;
+    initialFileRef.current = undefined;
+    importFile(file);
+  }, [importFile]);
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    importFile({ file });
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  // The document as it should be saved: rows put back into the original envelope, written in the source file's formatting.
+  // Rows keep their key order, so editing one cell in an opened file changes one line.
+  const serializeDocument = () => {
+    const exportDocument = envelope ? setAtPath(envelope.root, envelope.path, data) : data;
+    return formatJson(exportDocument, jsonFormat ?? DEFAULT_JSON_FORMAT);
+  };
+
+  // Saving keeps the format of the target file: JSON Lines and CSV/TSV files are written back as such (with every column)
+  const serializeForFile = (name: string): { content: string; type: string } => {
+    const extension = name.toLowerCase().split(".").pop();
+    switch (extension) {
+      case "jsonl":
+      case "ndjson":
+        return { content: toJSONL(data), type: "application/x-ndjson" };
+      case "csv":
+        return { content: toCSV(data, columns, DEFAULT_CSV_EXPORT_OPTIONS), type: "text/csv" };
+      case "tsv":
+        return { content: toCSV(data, columns, { ...DEFAULT_CSV_EXPORT_OPTIONS, delimiter: "\t" }), type: "text/tab-separated-values" };
+      default:
+        return { content: serializeDocument(), type: "application/json" };
+    }
+  };
+
+  const saveToHandle = async (handle: FileSystemFileHandle) => {
+    try {
+      await writeToHandle(handle, serializeForFile(handle.name).content);
+    } catch (e) {
+      console.error("Failed to save file", e);
+      toast.error(`Could not save ${handle.name}.`, { description: e instanceof Error ? e.message : undefined });
+      return;
+    }
+    setFileHandle(handle);
+    setFileName(handle.name);
+    setSavedMarker(currentMarker);
+    toast.success(`Saved ${handle.name}.`);
+  };
+
+  const handleSaveAs = async () => {
+    if (data.length === 0) {
+      toast.warning("Nothing to save.");
+      return;
+    }
+    const suggestedName = fileName ?? "data.json";
+    if (!supportsFileSystemAccess()) {
+      // Fallback: download under the remembered name
+      const { content, type } = serializeForFile(suggestedName);
+      downloadFile(content, suggestedName, type);
+      setSavedMarker(currentMarker);
+      toast.success(`Downloaded ${suggestedName}.`);
+      return;
+    }
+    let handle: FileSystemFileHandle | null;
+    try {
+      handle = await pickFileToSave(suggestedName);
+    } catch (e) {
+      console.error("Failed to pick a file", e);
+      toast.error("Could not save the file.");
+      return;
+    }
+    if (handle) await saveToHandle(handle);
+  };
+
+  // Writes back to the opened file; documents without one go through Save As
+  const handleSave = async () => {
+    if (fileHandle && data.length > 0) {
+      await saveToHandle(fileHandle);
+    } else {
+      await handleSaveAs();
+    }
+  };
+
+  const handleCopyJSON = () => {
+    navigator.clipboard.writeText(serializeDocument());
+    toast.success("JSON copied to clipboard");
+  };
+
+  const handleExport = () => {
+    if (data.length === 0) {
+      toast.warning("Nothing to export.");
+      return;
+    }
+    downloadFile(serializeDocument(), withExtension(fileName ?? "data", "json"), "application/json");
+    toast.success("File exported.");
+  };
+
+  const handleExportJSONL = () => {
+    if (data.length === 0) {
+      toast.warning("Nothing to export.");
+      return;
+    }
+    downloadFile(toJSONL(data), withExtension(fileName ?? "data", "jsonl"), "application/x-ndjson");
+    toast.success("File exported as JSON Lines.");
+  };
+
+  const handleExportCSV = (options: CSVExportOptions) => {
+    const isTSV = options.delimiter === "\t";
+    const content = toCSV(data, visibleColumns, options);
+    downloadFile(content, withExtension(fileName ?? "data", isTSV ? "tsv" : "csv"), isTSV ? "text/tab-separated-values" : "text/csv");
+    toast.success(`Exported ${data.length} rows as ${isTSV ? "TSV" : "CSV"}.`);
+  };
+
+  // Clearing is an undo step, but the cleared tab is no longer bound to the opened file:
+  // saving it must not write an empty array over that file. Undoing the clear links it again.
+  const clearWorkspace = () => {
+    const linked = fileName ? ` The tab is no longer linked to ${fileName}.` : "";
+    if (!confirm(`Clear all data? You can undo this.${linked}`)) return;
+    setClearedOrigin({ before: history.past[history.past.length - 1] ?? null, fileName, fileHandle, envelope, jsonFormat, sortConfig, savedMarker });
+    setDoc(createDocument([]), CLEAR_LABEL);
+    setSortConfig(null);
+    setEnvelope(null);
+    setJsonFormat(null);
+    setFileName(null);
+    setFileHandle(null);
+    setSavedMarker(null);
+    // The session is kept while the clear can be undone (see the persistence effect)
+    toast.info("Workspace cleared.");
+  };
+
+  const handlePaste = async () => {
+    let text: string;
+    try {
+      text = await navigator.clipboard.readText();
+    } catch {
+      toast.error("Could not read clipboard. Please grant permission.");
+      return;
+    }
+    importText(text, "clipboard");
+  };
+
+  const updateCell = (rowIdx: number, col: string, val: CellValue) => {
+    // Unchanged values are skipped, so saving the same value twice doesn't add a history step
+    setData(prev => applyCellUpdates(prev, [{ row: rowIdx, col, value: val }]), `Edit ${col} (row ${rowIdx + 1})`);
+  };
+
+  // Multi-cell edits (clearing a selection…) are one undo step
+  const updateCells = (updates: CellUpdate[], label: string) => {
+    setData(prev => applyCellUpdates(prev, updates), label);
+  };
+
+  // Converts the outliers of a column picked in the type report; values that can't be converted are left alone
+  const handleCoerceCells = (col: string, rowIndices: number[], type: ColumnType) => {
+    const updates: CellUpdate[] = [];
+    rowIndices.forEach(row => {
+      const result = coerceValue(data[row][col], type);
+      if (result.ok) updates.push({ row, col, value: result.value as CellValue });
+    });
+    if (updates.length === 0) return;
+    updateCells(updates, `Convert ${updates.length} value${updates.length === 1 ? "" : "s"} in "${col}" to ${type}`);
+  };
+
+  const deleteRow = (rowIdx: number) => {
+    setData(prev => {
+      const newData = [...prev];
+      newData.splice(rowIdx, 1);
+      return newData;
+    }, `Delete row ${rowIdx + 1}`);
+    toast.success("Row deleted.");
+  };
+
+  const addRow = (row: TableRow) => {
+    setData(prev => [...prev, row], "Add row");
+  };
+
+  // Sorting is a view concern: DataTable renders rows in sorted order, data keeps its order
+  const handleSort = (col: string, additive: boolean) => {
+    setSortConfig(prev => nextSortConfig(prev, col, additive));
+  };
+
+  const handleApplySort = () => {
+    if (!sortConfig) return;
+    const order = sortRowIndices(data, sortConfig, schema);
+    setData(order.map(idx => data[idx]), `Sort by ${sortConfig.keys.map(k => k.column).join(", ")}`);
+    setSortConfig(null);
+    toast.success("Sort order applied to data.");
+  };
+
+  // --- Find & Replace ---
+  const searchMatcher = useMemo(() => isSearchOpen ? buildMatcher(searchOptions) : null, [isSearchOpen, searchOptions]);
+  // Hits and errors are stepped through in the table's sorted order; those in rows hidden by a filter are only counted
+  const cellRank = useMemo(
+    () => cellRankInView(viewOrder ?? data.map((_, idx) => idx), visibleColumns),
+    [viewOrder, data, visibleColumns]
+  );
+  const { cells: searchMatches, hidden: hiddenMatchCount } = useMemo(
+    () => inViewOrder(findMatches(data, visibleColumns, searchMatcher), cellRank),
+    [data, visibleColumns, searchMatcher, cellRank]
+  );
+  const activeMatch = searchMatches.length > 0 ? searchMatches[Math.min(activeMatchIdx, searchMatches.length - 1)] : null;
+
+  // Every row is validated (cached per row object); errors are listed for the visible columns, in reading order
+  const rowErrors = useMemo(() => jsonSchema ? data.map(row => validateRow(row, jsonSchema)) : null, [data, jsonSchema]);
+  const { cells: cellErrors, hidden: hiddenErrorCount } = useMemo(
+    () => inViewOrder(rowErrors ? listCellErrors(rowErrors, visibleColumns) : [], cellRank),
+    [rowErrors, visibleColumns, cellRank]
+  );
+  const missingRequired = jsonSchema?.required?.filter(col => !columns.includes(col)) ?? [];
+  const activeErrorIdx = activeError ? cellErrors.findIndex(e => e.row === activeError.row && e.col === activeError.col) : -1;
+
+  // Steps from the last visited error, which may have been fixed (or filtered out) since, to the next one in reading order
+  const handleErrorStep = (step: 1 | -1) => {
+    if (cellErrors.length === 0) return;
+    const current = activeError ? cellRank(activeError) : -1;
+    const next = step === 1
+      ? cellErrors.find(e => cellRank(e) > current) ?? cellErrors[0]
+      : [...cellErrors].reverse().find(e => current === -1 || cellRank(e) < current) ?? cellErrors[cellErrors.length - 1];
+    setActiveError(next);
+  };
+
+  // Brings a cell into view (type report); a row hidden by a filter can't be, so say so instead
+  const handleRevealCell = (cell: { row: number; col: string }): boolean => {
+    if (cellRank(cell) < 0) {
+      toast.info(`Row ${cell.row + 1} is hidden by a filter.`);
+      return false;
+    }
+    setRevealCell(cell);
+    return true;
+  };
+
+  const handleAttachSchema = (schema: JsonSchemaObject) => {
+    setJsonSchema(schema);
+    setActiveError(null);
+    const errorCount = data.reduce((count, row) => count + Object.keys(validateRow(row, schema) ?? {}).length, 0);
+    if (errorCount === 0) toast.success("All rows match the schema.");
+    else toast.warning(`${errorCount} invalid cell${errorCount === 1 ? "" : "s"}.`);
+  };
+
+  const handleSearchOptionsChange = (options: SearchOptions) => {
+    setSearchOptions(options);
+    setActiveMatchIdx(0);
+  };
+
+  const handleSearchStep = (step: 1 | -1) => {
+    if (searchMatches.length === 0) return;
+    const current = Math.min(activeMatchIdx, searchMatches.length - 1);
+    setActiveMatchIdx((current + step + searchMatches.length) % searchMatches.length);
+  };
+
+  const handleReplace = (replacement: string) => {
+    if (!searchMatcher || !activeMatch) return;
+    // The replaced cell usually stops matching, so the same index then points at the next hit
+    const result = replaceInCells(data, [activeMatch], searchMatcher, toReplacement(replacement, searchOptions));
+    if (result.count > 0) setData(result.data, `Replace in ${activeMatch.col} (row ${activeMatch.row + 1})`);
+  };
+
+  // Like the match count, only covers the rows the filters show
+  const handleReplaceAll = (replacement: string) => {
+    if (!searchMatcher || searchMatches.length === 0) return;
+    const result = replaceInCells(data, searchMatches, searchMatcher, toReplacement(replacement, searchOptions));
+    if (result.count > 0) {
+      setData(result.data, `Replace all "${searchOptions.query}"`); // One history step for the whole replace
+      setActiveMatchIdx(0);
+      const skipped = hiddenMatchCount > 0 ? ` ${hiddenMatchCount} cell(s) hidden by filters were left as they are.` : "";
+      toast.success(`Replaced ${result.count} occurrence(s) in ${searchMatches.length} cell(s).${skipped}`);
+    }
+  };
+
+  // Moving through the history to `position` (the number of past steps) across the Clear workspace step
+  // links the cleared file again (undo) or unlinks it (redo)
+  const crossClearStep = (position: number) => {
+    if (!clearedOrigin) return;
+    const steps = [...history.past, ...history.future];
+    const clearIdx = clearedOrigin.before ? steps.indexOf(clearedOrigin.before) + 1 : 0;
+    // Gone from the history: dropped over the budget, or replaced by an edit after undoing it
+    if (clearIdx === 0 && clearedOrigin.before) return;
+    if (steps[clearIdx]?.label !== CLEAR_LABEL) return;
+    const isCleared = history.past.length > clearIdx;
+    if (isCleared === position > clearIdx) return;
+    const origin = isCleared ? clearedOrigin : null;
+    setFileName(origin?.fileName ?? null);
+    setFileHandle(origin?.fileHandle ?? null);
+    setEnvelope(origin?.envelope ?? null);
+    setJsonFormat(origin?.jsonFormat ?? null);
+    setSortConfig(origin?.sortConfig ?? null);
+    setSavedMarker(origin?.savedMarker ?? null);
+  };
+
+  const handleUndo = () => {
+    if (!canUndo) return;
+    const step = history.past[history.past.length - 1];
+    crossClearStep(history.past.length - 1);
+    undo();
+    toast.info(`Undone: ${step.label}`);
+  };
+
+  const handleRedo = () => {
+    if (!canRedo) return;
+    const step = history.future[0];
+    crossClearStep(history.past.length + 1);
+    redo();
+    toast.info(`Redone: ${step.label}`);
+  };
+
+  const handleJump = (position: number) => {
+    crossClearStep(position);
+    jumpTo(position);
+  };
+
+  // Keyboard Shortcuts
+  useKeyboardShortcuts({
+    enabled: isActive,
+    onSave: () => {
+      if (data.length > 0) {
+        handleSave();
+      }
+    },
+    onSaveAs: () => {
+      if (data.length > 0) {
+        handleSaveAs();
+      }
+    },
+    onOpen: handleOpen,
+    onClear: () => {
+      if (data.length > 0) clearWorkspace();
+    },
+    onUndo: handleUndo,
+    onRedo: handleRedo,
+    onToggleHistory: () => setIsHistoryOpen(open => !open),
+    onCopy: () => {
+      if (data.length > 0) handleCopyJSON();
+    },
+    onReorderColumns: () => setIsReorderOpen(true),
+    onToggleFilters: () => setIsFilterOpen(open => !open),
+    onFind: () => {
+      if (data.length > 0) setIsSearchOpen(true);
+    }
+  });
+
+  useEffect(() => {
+    if (!isActive) return;
+    const handleGlobalPaste = (e: ClipboardEvent) => {
+      // Already handled, e.g. pasted into the table's cells
+      if (e.defaultPrevented) return;
+
+      // Ignore if user is interacting with an input or textarea
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement ||
+        (e.target as HTMLElement).isContentEditable
+      ) {
+        return;
+      }
+
+      const text = e.clipboardData?.getData('text');
+      if (!text) return;
+
+      e.preventDefault(); // Prevent default paste behavior
+      importText(text, "clipboard");
+    };
+
+    // window.addEventListener("beforeunload", handleBeforeUnload); // Removed warning
+    window.addEventListener("paste", handleGlobalPaste);
+
+    return () => {
+      // window.removeEventListener("beforeunload", handleBeforeUnload);
+      window.removeEventListener("paste", handleGlobalPaste);
+    };
+  }, [importText, isActive]);
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+
+    // The first file opens here, any others in new tabs
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) {
+      importFile({ file: files[0] });
+      if (files.length > 1) onOpenFiles(files.slice(1).map(file => ({ file })));
+    }
+  };
+
+  // A file dropped on an open document goes through the import dialog (replace, append, update by key, or a new tab).
+  // Several files are left to the app, which opens each in a new tab.
+  const handleDocumentDrop = (e: React.DragEvent) => {
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length !== 1) return;
+    e.preventDefault();
+    importFile({ file: files[0] });
+  };
+
+  const handleLoadDebugData = (debugData: TableRow[]) => {
+    loadRows(debugData, "Opened sample");
+    toast.success(`Sample loaded (${debugData.length} rows).`);
+  };
+
+  return (
+    <div
+      className={`${isActive ? 'flex' : 'hidden'} flex-1 min-h-0 flex-col overflow-hidden ${data.length === 0 ? 'mesh-background' : ''}`}
+      onDrop={data.length > 0 ? handleDocumentDrop : undefined}
+    >
+      <input
+        type="file"
+        accept=".json,.jsonl,.ndjson,.csv,.tsv,.txt,application/json,text/csv,text/tab-separated-values"
+        className="hidden"
+        ref={fileInputRef}
+        onChange={handleFileUpload}
+      />
+
+      {/* Top Header - Only visible when data exists */}
+      {data.length > 0 && (
+        <header className="h-14 sticky top-0 z-50 flex items-center justify-between px-6 shrink-0">
+          <div className="flex items-center gap-3">
+            <div className="p-1.5">
+              <FileJson className="w-5 h-5" style={{ stroke: 'url(#icon-gradient)' }} />
+            </div>
+            <div>
+              <h1 className="text-sm font-semibold leading-none flex items-center gap-2">
+                JSON Table Editor
+                {isDirty && (
+                  <span className="w-1.5 h-1.5 rounded-full bg-amber-400" title="Unsaved changes" aria-label="Unsaved changes" />
+                )}
+              </h1>
+              {(fileName || envelope || jsonFormat) && (
+                <p className="text-[11px] font-mono text-muted-foreground mt-1" title="Saved inside the original document, with its formatting">
+                  {[fileName, envelope && formatPath(envelope.path), jsonFormat && describeJsonFormat(jsonFormat)].filter(Boolean).join(" · ")}
+                  {isDirty && " · unsaved"}
+                </p>
+              )}
+            </div>
+            {jsonSchema && (
+              <SchemaStatus
+                errorCount={cellErrors.length}
+                hiddenCount={hiddenErrorCount}
+                activeIndex={activeErrorIdx}
+                missingColumns={missingRequired}
+                onNext={() => handleErrorStep(1)}
+                onPrev={() => handleErrorStep(-1)}
+              />
+            )}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <div className="flex items-center gap-1 mr-2">
+              <ToolbarButton
+                onClick={handleUndo}
+                disabled={!canUndo}
+                icon={<Undo className="w-4 h-4" />}
+                label="Undo"
+                shortcut="⌘Z"
+                className="disabled:opacity-30"
+              />
+              <ToolbarButton
+                onClick={handleRedo}
+                disabled={!canRedo}
+                icon={<Redo className="w-4 h-4" />}
+                label="Redo"
+                shortcut="⇧⌘Z"
+                className="disabled:opacity-30"
+              />
+              <ToolbarButton
+                onClick={() => setIsHistoryOpen(open => !open)}
+                icon={<History className="w-4 h-4" />}
+                label="History"
+                shortcut="⇧⌘H"
+                className={isHistoryOpen ? "text-green-500" : ""}
+              />
+            </div>
+            <div className="w-px h-6 bg-border mx-1" />
+
+            {sortConfig && (
+              <ToolbarButton
+                onClick={handleApplySort}
+                icon={<ArrowDownWideNarrow className="w-4 h-4" />}
+                label="Apply sort to data"
+              />
+            )}
+            <ToolbarButton
+              onClick={() => setIsSearchOpen(open => !open)}
+              icon={<Search className="w-4 h-4" />}
+              label="Find & replace"
+              shortcut="⌘F"
+              className={isSearchOpen ? "text-green-500" : ""}
+            />
+            <ToolbarButton
+              onClick={() => setIsFilterOpen(open => !open)}
+              icon={<Filter className="w-4 h-4" />}
+              label={isFilterOpen ? "Hide filters" : "Filter rows"}
+              shortcut="⇧⌘F"
+              className={isFilterOpen ? "text-green-500" : ""}
+            />
+            <ToolbarButton
+              onClick={() => setIsReorderOpen(true)}
+              icon={<Columns3 className="w-4 h-4" />}
+              label="Reorder Columns"
+              shortcut="⇧⌘O"
+            />
+            <ToolbarButton
+              onClick={() => setIsSchemaOpen(true)}
+              icon={<FileCheck className="w-4 h-4" />}
+              label={jsonSchema ? "Edit JSON Schema" : "Attach JSON Schema"}
+              className={jsonSchema ? "text-green-500" : ""}
+            />
+            {hiddenColumns.length > 0 && (
+              <ToolbarButton
+                onClick={handleShowAllColumns}
+                icon={<Eye className="w-4 h-4" />}
+                label={`Show ${hiddenColumns.length} hidden column${hiddenColumns.length === 1 ? "" : "s"}`}
+              />
+            )}
+
+            <div className="w-px h-6 bg-border mx-1" />
+
+            <ToolbarButton
+              onClick={handleCopyJSON}
+              icon={<Copy className="w-4 h-4" />}
+              label="Copy JSON"
+              shortcut="⌘C"
+            />
+            <ToolbarButton
+              onClick={handleSave}
+              icon={<Save className="w-4 h-4" />}
+              label={fileHandle ? `Save to ${fileHandle.name}` : "Save"}
+              shortcut="⌘S"
+            />
+            <ToolbarButton
+              onClick={handleSaveAs}
+              icon={<SaveAll className="w-4 h-4" />}
+              label="Save As…"
+              shortcut="⇧⌘S"
+            />
+            <ToolbarButton
+              onClick={handleExport}
+              icon={<Download className="w-4 h-4" />}
+              label="Download JSON"
+            />
+            <ToolbarButton
+              onClick={handleExportJSONL}
+              icon={<FileText className="w-4 h-4" />}
+              label="Download as JSONL"
+            />
+            <ToolbarButton
+              onClick={() => setIsExportOpen(true)}
+              icon={<Sheet className="w-4 h-4" />}
+              label="Export CSV / TSV"
+            />
+            <ToolbarButton
+              onClick={() => setIsSchemaExportOpen(true)}
+              icon={<FileCode className="w-4 h-4" />}
+              label="Export schema"
+            />
+            <div className="w-px h-6 bg-border mx-1" />
+            <ToolbarButton
+              onClick={clearWorkspace}
+              variant="destructive"
+              icon={<Trash2 className="w-4 h-4" />}
+              label="Clear workspace"
+              shortcut="⌘⌫"
+            />
+          </div>
+        </header>
+      )}
+
+      {/* Main Content Area - Scrollable */}
+      <main className="flex-1 overflow-hidden relative flex flex-col">
+        {isRestoring && data.length === 0 ? null : data.length === 0 ? (
+          <div className="flex-1 flex flex-col items-center justify-center p-6 gap-8 relative overflow-hidden">
+            <div className="relative w-full max-w-2xl">
+              <div className="absolute top-0 left-1/2 -translate-x-1/2 -translate-y-[55%] z-20 w-full text-center pointer-events-none">
+                <h1 className="neon-hero-title">
+                  TableJSON
+                </h1>
+              </div>
+              <Card
+                className="w-full jte-card rounded-[3.5rem] transition-colors relative border-0"
+                onDragOver={handleDragOver}
+                onDragLeave={handleDragLeave}
+                onDrop={handleDrop}
+              >
+                {isDragging && (
+                  <div className="absolute inset-0 z-50 flex items-center justify-center bg-card/95 backdrop-blur-sm rounded-[3.5rem] pointer-events-none">
+                    <h2 className="text-3xl font-semibold text-white">Drop to import</h2>
+                  </div>
+                )}
+                <CardHeader className="p-16 pb-8 space-y-0 text-left pointer-events-none">
+                  <CardTitle className="text-4xl font-semibold tracking-tight leading-[1.15]">The <span className="line-through decoration-white decoration-2 text-muted-foreground">simple</span> <span className="bg-gradient-to-r from-[rgb(245,190,85)] via-[rgb(217,126,75)] to-[rgb(190,70,70)] bg-clip-text text-transparent">overengineered</span><br />JSON table editor</CardTitle>
+                  <CardDescription className="text-xl pt-6 leading-relaxed text-white/80">
+                    Because juggling JSON and Excel sucks. TableJSON is a beautifully overengineerd Excel-like editor for JSON files. All the simplicity, none of the suffering. <br /><br />Everything stays on your machine. Nowhere else.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="px-16 pb-16 pt-4 flex flex-col gap-8">
+                  <div className="flex flex-col gap-4">
+                    <div className="flex flex-row gap-6">
+                      <PrimaryButton onClick={handlePaste} size="xl" className="flex-1 group relative">
+                        <ClipboardPaste className="w-6 h-6" /> Paste JSON
+                        <kbd className="absolute right-4 hidden group-hover:inline-flex h-6 select-none items-center gap-1 rounded border bg-muted px-1.5 font-mono text-[10px] font-medium text-muted-foreground opacity-100">
+                          <span className="text-xs">⌘</span>V
+                        </kbd>
+                      </PrimaryButton>
+                      <SecondaryButton onClick={handleOpen} size="xl" className="flex-1 group relative">
+                        <Import className="w-6 h-6" /> Import File
+                        <kbd className="absolute right-4 hidden group-hover:inline-flex h-6 select-none items-center gap-1 rounded border bg-muted px-1.5 font-mono text-[10px] font-medium text-muted-foreground opacity-100">
+                          <span className="text-xs">⌘</span>O
+                        </kbd>
+                      </SecondaryButton>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* USPs below card */}
+            <div className="flex flex-row justify-center gap-10 text-base text-white/80">
+              <div className="flex items-center gap-3">
+                <Shield className="w-5 h-5" style={{ stroke: 'url(#icon-gradient)' }} />
+                <span>Privacy by design</span>
+              </div>
+              <div className="flex items-center gap-3">
+                <WifiOff className="w-5 h-5" style={{ stroke: 'url(#icon-gradient)' }} />
+                <span>100% offline</span>
+              </div>
+              <div className="flex items-center gap-3">
+                <Command className="w-5 h-5" style={{ stroke: 'url(#icon-gradient)' }} />
+                <span>Shortcuts for everything</span>
+              </div>
+            </div>
+
+            <DebugPanel onLoad={handleLoadDebugData} />
+
+          </div>
+        ) : (
+          <div className="flex-1 flex flex-col h-full relative">
+            {isSearchOpen && (
+              <SearchPanel
+                options={searchOptions}
+                onOptionsChange={handleSearchOptionsChange}
+                matchCount={searchMatches.length}
+                hiddenCount={hiddenMatchCount}
+                activeIndex={Math.min(activeMatchIdx, Math.max(0, searchMatches.length - 1))}
+                isInvalid={!!searchOptions.query && !searchMatcher}
+                onNext={() => handleSearchStep(1)}
+                onPrev={() => handleSearchStep(-1)}
+                onReplace={handleReplace}
+                onReplaceAll={handleReplaceAll}
+                onClose={() => setIsSearchOpen(false)}
+              />
+            )}
+            <div className="flex-1 flex min-h-0">
+            {/* Table Area - Fixed Height for Internal Scrolling */}
+            <div className="flex-1 min-w-0 overflow-hidden px-6 py-2 h-full">
+              <DataTable
+                data={data}
+                columns={visibleColumns}
+                schema={schema} // Pass schema prop
+                onUpdateCell={updateCell}
+                onUpdateCells={updateCells}
+                onDeleteRow={deleteRow}
+                sortConfig={sortConfig}
+                onSort={handleSort}
+                onAdd={addRow}
+                onAddColumn={(name, type, defaultValue, index) => {
+                  handleAddColumn(name, type as ColumnType, defaultValue, index === undefined ? undefined : toColumnIndex(index));
+                  setIsAddColumnOpen(false);
+                }}
+                isAddColumnOpen={isAddColumnOpen}
+                onAddColumnOpenChange={setIsAddColumnOpen}
+                onDeleteColumn={handleDeleteColumn}
+                onRenameColumn={handleRenameColumn}
+                onOpenReorder={() => setIsReorderOpen(true)}
+                onHideColumn={handleHideColumn}
+                onChangeColumnType={handleChangeColumnType}
+                showFilters={isFilterOpen}
+                searchMatcher={searchMatcher}
+                activeMatch={isSearchOpen ? activeMatch : null}
+                rowErrors={rowErrors}
+                activeError={activeError}
+                onOpenTypeReport={setTypeReportColumn}
+                revealCell={revealCell}
+                onViewOrderChange={setViewOrder}
+              />
+            </div>
+            {isHistoryOpen && (
+              <HistoryPanel
+                base={history.base}
+                past={history.past}
+                future={history.future}
+                onJump={handleJump}
+                onClose={() => setIsHistoryOpen(false)}
+              />
+            )}
+            </div>
+
+
+
+          </div>
+        )}
+      </main>
+
+      {/* Reorder Dialog */}
+      <ReorderColumnsDialog
+        open={isReorderOpen}
+        onOpenChange={setIsReorderOpen}
+        columns={columns}
+        onReorder={handleReorderColumns}
+      />
+
+      <ArrayPathDialog
+        open={!!pendingImport}
+        candidates={pendingImport?.candidates ?? []}
+        defaultPath={pendingImport?.defaultPath}
+        onSelect={handleSelectArray}
+        onCancel={() => setPendingImport(null)}
+      />
+
+      <ImportModeDialog
+        open={!!pendingMerge}
+        source={pendingMerge?.source ?? ""}
+        rows={pendingMerge?.rows ?? NO_ROWS}
+        document={doc}
+        onImport={handleMerge}
+        onOpenInNewTab={pendingMerge?.opened ? () => {
+          onOpenFiles([pendingMerge.opened!]);
+          setPendingMerge(null);
+        } : undefined}
+        onCancel={() => setPendingMerge(null)}
+      />
+
+      <JsonSchemaDialog
+        open={isSchemaOpen}
+        onOpenChange={setIsSchemaOpen}
+        schema={jsonSchema}
+        onAttach={handleAttachSchema}
+        onRemove={() => {
+          setJsonSchema(null);
+          setActiveError(null);
+        }}
+      />
+
+      <SchemaExportDialog
+        open={isSchemaExportOpen}
+        onOpenChange={setIsSchemaExportOpen}
+        rows={data}
+        columns={columns}
+        fileName={fileName}
+      />
+
+      <ConvertColumnDialog
+        open={convertRequest !== null}
+        onOpenChange={(open) => !open && setConvertRequest(null)}
+        column={convertRequest?.col ?? null}
+        initialTarget={convertRequest?.target ?? "text"}
+        rows={data}
+        onConvert={(target, onFail) => convertRequest && handleConvertColumn(convertRequest.col, target, onFail)}
+      />
+
+      <TypeReportDialog
+        open={typeReportColumn !== null}
+        onOpenChange={(open) => !open && setTypeReportColumn(null)}
+        column={typeReportColumn}
+        rows={data}
+        onCoerce={(rowIndices, type) => typeReportColumn !== null && handleCoerceCells(typeReportColumn, rowIndices, type)}
+        onRevealRow={(row) => {
+          if (typeReportColumn !== null && handleRevealCell({ row, col: typeReportColumn })) setTypeReportColumn(null);
+        }}
+      />
+
+      <ExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        columnCount={visibleColumns.length}
+        hiddenCount={hiddenColumns.length}
+        onExport={handleExportCSV}
+      />
+    </div>
+  );
+}
@@ -4,10 +4,11 @@ import { SecondaryButton } from "@/components/ui/secondary-button";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { GradientInput } from "@/components/ui/gradient-input";
-import type { ColumnType } from "@/lib/data-utils";
+import type { CellValue, ColumnType } from "@/lib/data-utils";
 
 interface AddColumnFormProps {
-    onAdd: (name: string, type: ColumnType, defaultValue?: any) => void;
+    /** defaultValue is undefined when none was picked: the rows don't get the key. */
+    onAdd: (name: string, type: ColumnType, defaultValue?: CellValue) => void;
     onCancel: () => void;
     existingColumns: string[];
 }
@@ -45,11 +46,10 @@ export const AddColumnForm = ({ onAdd, onCancel, existingColumns }: AddColumnFor
             return;
         }
 
-        let finalDefaultValue: any = null;
+        let finalDefaultValue: CellValue | undefined;
         if (type === 'boolean') {
             if (defaultValue === 'true') finalDefaultValue = true;
             else if (defaultValue === 'false') finalDefaultValue = false;
-            else finalDefaultValue = null;
         }
 
         onAdd(trimmedName, type, finalDefaultValue);
@@ -108,7 +108,7 @@ export const AddColumnForm = ({ onAdd, onCancel, existingColumns }: AddColumnFor
                                 <SelectValue placeholder="Select default" />
                             </SelectTrigger>
                             <SelectContent>
-                                <SelectItem value="null">Null (Empty)</SelectItem>
+                                <SelectItem value="null">None (key left out)</SelectItem>
                                 <SelectItem value="false">False</SelectItem>
                                 <SelectItem value="true">True</SelectItem>
                             </SelectContent>
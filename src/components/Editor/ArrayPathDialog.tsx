@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { formatPath, type ArrayCandidate } from "@/lib/json-path-utils";
+import { Brackets } from "lucide-react";
+
+interface ArrayPathDialogProps {
+    open: boolean;
+    candidates: ArrayCandidate[];
+    /** The candidate selected when the dialog opens. */
+    defaultPath?: string;
+    onSelect: (candidate: ArrayCandidate) => void;
+    onCancel: () => void;
+}
+
+export const ArrayPathDialog = ({ open, candidates, defaultPath, onSelect, onCancel }: ArrayPathDialogProps) => (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+        <DialogContent className="max-w-lg">
+            {/* Remounted per document, so the selection starts at its default */}
+            <ArrayPathForm key={defaultPath} candidates={candidates} defaultPath={defaultPath} onSelect={onSelect} onCancel={onCancel} />
+        </DialogContent>
+    </Dialog>
+);
+
+const ArrayPathForm = ({ candidates, defaultPath, onSelect, onCancel }: Omit<ArrayPathDialogProps, "open">) => {
+    const [selected, setSelected] = useState<string | undefined>(defaultPath);
+
+    const handleOpen = () => {
+        const candidate = candidates.find(c => formatPath(c.path) === selected);
+        if (candidate) onSelect(candidate);
+    };
+
+    return (
+        <>
+            <DialogHeader>
+                <DialogTitle>Choose the table to edit</DialogTitle>
+                <DialogDescription>
+                    This document contains more than one list of objects. The rest of the document is kept and written back around the table on export.
+                </DialogDescription>
+            </DialogHeader>
+
+            <div className="py-4 max-h-[60vh] overflow-y-auto pr-1 flex flex-col gap-2" role="radiogroup">
+                {candidates.map(candidate => {
+                    const label = formatPath(candidate.path);
+                    const isSelected = label === selected;
+                    return (
+                        <button
+                            key={label}
+                            type="button"
+                            role="radio"
+                            aria-checked={isSelected}
+                            onClick={() => setSelected(label)}
+                            onDoubleClick={() => onSelect(candidate)}
+                            className={`flex items-start gap-3 p-3 rounded-md border text-left transition-colors ${isSelected ? "border-green-500/60 bg-green-500/10" : "border-white/5 bg-muted/40 hover:bg-muted/60"}`}
+                        >
+                            <Brackets className={`w-4 h-4 mt-0.5 shrink-0 ${isSelected ? "text-green-500" : "text-muted-foreground"}`} />
+                            <div className="min-w-0 flex-1">
+                                <div className="flex items-baseline gap-2">
+                                    <span className="font-mono text-sm truncate">{label}</span>
+                                    <span className="text-xs text-muted-foreground shrink-0">
+                                        {candidate.count} row{candidate.count === 1 ? "" : "s"}
+                                    </span>
+                                </div>
+                                <div className="text-xs text-muted-foreground truncate">
+                                    {candidate.sampleKeys.join(", ")}
+                                </div>
+                            </div>
+                        </button>
+                    );
+                })}
+            </div>
+
+            <DialogFooter>
+                <Button variant="outline" onClick={onCancel}>Cancel</Button>
+                <Button onClick={handleOpen} disabled={!selected}>Open</Button>
+            </DialogFooter>
+        </>
+    );
+};
@@ -0,0 +1,150 @@
+import { TableCell, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { BooleanBadge } from "@/components/ui/BooleanBadge";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuLabel,
+    DropdownMenuRadioGroup,
+    DropdownMenuRadioItem,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { FILTER_OP_LABELS, filterOpsForType, isInvalidFilter, type ColumnFilter, type FilterConfig, type FilterOp } from "@/lib/filter-utils";
+import { Filter, X } from "lucide-react";
+
+interface ColumnFilterRowProps {
+    columns: string[];
+    columnTypes: Record<string, string>;
+    gridTemplate: string;
+    filters: FilterConfig;
+    onChange: (col: string, filter: ColumnFilter | null) => void;
+    onFocus?: () => void;
+}
+
+const PLACEHOLDERS: Partial<Record<FilterOp, string>> = {
+    "contains": "Contains…",
+    "regex": "/regex/",
+    "list-contains": "Item…",
+    "has-key": "Key…",
+};
+
+export const ColumnFilterRow = ({ columns, columnTypes, gridTemplate, filters, onChange, onFocus }: ColumnFilterRowProps) => {
+    return (
+        <TableRow
+            className="grid w-full items-center border-b hover:bg-transparent"
+            style={{ gridTemplateColumns: gridTemplate }}
+        >
+            {columns.map(col => {
+                const type = columnTypes[col];
+                const ops = filterOpsForType(type);
+                const filter: ColumnFilter = filters.columns[col] ?? { op: ops[0] };
+                const isSet = !!filters.columns[col];
+
+                const update = (patch: Partial<ColumnFilter>) => onChange(col, { ...filter, ...patch });
+
+                let control: React.ReactNode;
+                switch (filter.op) {
+                    case "range":
+                        control = (
+                            <div className="flex items-center gap-1 flex-1 min-w-0">
+                                <Input
+                                    value={filter.min ?? ""}
+                                    onChange={(e) => update({ min: e.target.value })}
+                                    onFocus={onFocus}
+                                    placeholder="Min"
+                                    className="h-7 px-2 text-xs font-mono min-w-0"
+                                />
+                                <Input
+                                    value={filter.max ?? ""}
+                                    onChange={(e) => update({ max: e.target.value })}
+                                    onFocus={onFocus}
+                                    placeholder="Max"
+                                    className="h-7 px-2 text-xs font-mono min-w-0"
+                                />
+                            </div>
+                        );
+                        break;
+                    case "is-true":
+                    case "is-false":
+                        // Tri-state: any → true → false → any
+                        control = (
+                            <button
+                                type="button"
+                                className="flex-1 min-w-0 h-7 flex items-center text-xs text-muted-foreground"
+                                onClick={() => {
+                                    if (!isSet) update({ op: "is-true" });
+                                    else if (filter.op === "is-true") update({ op: "is-false" });
+                                    else onChange(col, null);
+                                }}
+                            >
+                                {isSet ? <BooleanBadge value={filter.op === "is-true"} /> : "Any"}
+                            </button>
+                        );
+                        break;
+                    case "is-null":
+                    case "is-missing":
+                        control = (
+                            <span className="flex-1 min-w-0 truncate text-xs font-mono text-muted-foreground">
+                                {filter.op === "is-null" ? "null" : "missing"}
+                            </span>
+                        );
+                        break;
+                    default:
+                        control = (
+                            <Input
+                                value={filter.value ?? ""}
+                                onChange={(e) => update({ value: e.target.value })}
+                                onFocus={onFocus}
+                                placeholder={PLACEHOLDERS[filter.op]}
+                                className={`h-7 px-2 text-xs flex-1 min-w-0 ${filter.op === "regex" ? "font-mono" : ""} ${isInvalidFilter(filter) ? "ring-1 ring-destructive text-destructive" : ""}`}
+                            />
+                        );
+                }
+
+                return (
+                    <TableCell key={col} className="px-2 py-2 flex items-center gap-1 overflow-hidden">
+                        <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className={`h-7 w-7 shrink-0 ${isSet ? "text-green-500" : "text-muted-foreground/60"}`}
+                                    title={FILTER_OP_LABELS[filter.op]}
+                                    tabIndex={-1}
+                                >
+                                    <Filter className="h-3.5 w-3.5" />
+                                </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="start" className="w-44">
+                                <DropdownMenuLabel className="truncate text-xs text-muted-foreground font-normal">{col}</DropdownMenuLabel>
+                                <DropdownMenuRadioGroup
+                                    value={filter.op}
+                                    onValueChange={(op) => update({ op: op as FilterOp })}
+                                >
+                                    {ops.map(op => (
+                                        <DropdownMenuRadioItem key={op} value={op} className="text-xs">
+                                            {FILTER_OP_LABELS[op]}
+                                        </DropdownMenuRadioItem>
+                                    ))}
+                                </DropdownMenuRadioGroup>
+                            </DropdownMenuContent>
+                        </DropdownMenu>
+                        {control}
+                        {isSet && (
+                            <button
+                                type="button"
+                                onClick={() => onChange(col, null)}
+                                className="shrink-0 p-1 rounded text-muted-foreground hover:text-destructive hover:bg-destructive/20"
+                                title="Clear filter"
+                            >
+                                <X className="w-3 h-3" />
+                            </button>
+                        )}
+                    </TableCell>
+                );
+            })}
+            <TableCell className="p-0" />
+        </TableRow>
+    );
+};
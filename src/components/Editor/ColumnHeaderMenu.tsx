@@ -0,0 +1,203 @@
+import { useState } from "react";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuRadioGroup,
+    DropdownMenuRadioItem,
+    DropdownMenuSeparator,
+    DropdownMenuShortcut,
+    DropdownMenuSub,
+    DropdownMenuSubContent,
+    DropdownMenuSubTrigger,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Popover, PopoverAnchor, PopoverContent } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { RenameColumnForm } from "./RenameColumnForm";
+import { AddColumnForm } from "./AddColumnForm";
+import type { CellValue, ColumnType } from "@/lib/data-utils";
+import { ChevronDown, Pencil, Trash2, Shapes, ArrowLeftToLine, ArrowRightToLine, Columns3, EyeOff, SquareDashed, ChartNoAxesColumn } from "lucide-react";
+
+const TYPE_OPTIONS: { value: ColumnType; label: string }[] = [
+    { value: "text", label: "Text (String)" },
+    { value: "number", label: "Number" },
+    { value: "boolean", label: "Boolean" },
+    { value: "list", label: "List (Array)" },
+    { value: "object", label: "Object (Nested)" },
+];
+
+type FormMode = { kind: "rename" } | { kind: "insert"; side: "left" | "right" };
+
+interface ColumnHeaderMenuProps {
+    column: string;
+    columns: string[];
+    columnType?: ColumnType;
+    onRename?: (oldName: string, newName: string) => void;
+    onDelete?: (col: string) => void;
+    onChangeType?: (col: string, type: ColumnType) => void;
+    onInsertColumn?: (name: string, type: ColumnType, defaultValue: CellValue | undefined, index: number) => void;
+    onOpenReorder?: () => void;
+    onHide?: (col: string) => void;
+    onSelectColumn?: () => void;
+    onOpenTypeReport?: () => void;
+    /** Fired when the menu opens, so the table can release cell focus. */
+    onOpen?: () => void;
+}
+
+export const ColumnHeaderMenu = ({
+    column,
+    columns,
+    columnType,
+    onRename,
+    onDelete,
+    onChangeType,
+    onInsertColumn,
+    onOpenReorder,
+    onHide,
+    onSelectColumn,
+    onOpenTypeReport,
+    onOpen,
+}: ColumnHeaderMenuProps) => {
+    const [menuOpen, setMenuOpen] = useState(false);
+    const [formMode, setFormMode] = useState<FormMode | null>(null);
+
+    const handleMenuOpenChange = (open: boolean) => {
+        setMenuOpen(open);
+        if (open) onOpen?.();
+    };
+
+    const closeForm = () => setFormMode(null);
+
+    const handleDelete = () => {
+        if (confirm(`Delete column "${column}" and its values in every row?`)) {
+            onDelete?.(column);
+        }
+    };
+
+    const columnIndex = columns.indexOf(column);
+
+    return (
+        // Menu content is portaled, but React still bubbles its events to the header (which sorts on click)
+        <div onClick={(e) => e.stopPropagation()} className="flex items-center shrink-0">
+            <Popover open={!!formMode} onOpenChange={(open) => !open && closeForm()}>
+                <DropdownMenu open={menuOpen} onOpenChange={handleMenuOpenChange}>
+                    <PopoverAnchor asChild>
+                        <DropdownMenuTrigger asChild>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                className={`h-6 w-6 rounded-[6px] text-muted-foreground hover:text-foreground transition-opacity ${menuOpen || formMode ? "opacity-100 bg-muted" : "opacity-0 group-hover/header:opacity-100 focus-visible:opacity-100"}`}
+                                title={`Column options for ${column}`}
+                                tabIndex={-1}
+                            >
+                                <ChevronDown className="h-3.5 w-3.5" />
+                            </Button>
+                        </DropdownMenuTrigger>
+                    </PopoverAnchor>
+                    <DropdownMenuContent
+                        align="end"
+                        className="w-56"
+                        // Keep focus away from the trigger when handing over to a form popover
+                        onCloseAutoFocus={(e) => e.preventDefault()}
+                    >
+                        <DropdownMenuLabel className="truncate text-xs text-muted-foreground font-normal">{column}</DropdownMenuLabel>
+                        {onSelectColumn && (
+                            <DropdownMenuItem onSelect={onSelectColumn}>
+                                <SquareDashed /> Select column
+                                <DropdownMenuShortcut>⌃Space</DropdownMenuShortcut>
+                            </DropdownMenuItem>
+                        )}
+                        {onRename && (
+                            <DropdownMenuItem onSelect={() => setFormMode({ kind: "rename" })}>
+                                <Pencil /> Rename
+                            </DropdownMenuItem>
+                        )}
+                        {onChangeType && (
+                            <DropdownMenuSub>
+                                <DropdownMenuSubTrigger>
+                                    <Shapes /> Convert to…
+                                </DropdownMenuSubTrigger>
+                                <DropdownMenuSubContent>
+                                    <DropdownMenuRadioGroup
+                                        value={columnType}
+                                        onValueChange={(val) => onChangeType(column, val as ColumnType)}
+                                    >
+                                        {TYPE_OPTIONS.map(opt => (
+                                            <DropdownMenuRadioItem key={opt.value} value={opt.value}>
+                                                {opt.label}
+                                            </DropdownMenuRadioItem>
+                                        ))}
+                                    </DropdownMenuRadioGroup>
+                                </DropdownMenuSubContent>
+                            </DropdownMenuSub>
+                        )}
+                        {onOpenTypeReport && (
+                            <DropdownMenuItem onSelect={onOpenTypeReport}>
+                                <ChartNoAxesColumn /> Type report
+                            </DropdownMenuItem>
+                        )}
+                        {onInsertColumn && (
+                            <>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem onSelect={() => setFormMode({ kind: "insert", side: "left" })}>
+                                    <ArrowLeftToLine /> Insert column left
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onSelect={() => setFormMode({ kind: "insert", side: "right" })}>
+                                    <ArrowRightToLine /> Insert column right
+                                </DropdownMenuItem>
+                            </>
+                        )}
+                        {onHide && (
+                            <DropdownMenuItem onSelect={() => onHide(column)}>
+                                <EyeOff /> Hide column
+                            </DropdownMenuItem>
+                        )}
+                        {onOpenReorder && (
+                            <DropdownMenuItem onSelect={onOpenReorder}>
+                                <Columns3 /> Reorder columns
+                                <DropdownMenuShortcut>⇧⌘O</DropdownMenuShortcut>
+                            </DropdownMenuItem>
+                        )}
+                        {onDelete && (
+                            <>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem
+                                    onSelect={handleDelete}
+                                    className="text-destructive focus:text-destructive focus:bg-destructive/10"
+                                >
+                                    <Trash2 /> Delete column
+                                </DropdownMenuItem>
+                            </>
+                        )}
+                    </DropdownMenuContent>
+                </DropdownMenu>
+                <PopoverContent align="start" className="w-80">
+                    {formMode?.kind === "rename" && (
+                        <RenameColumnForm
+                            initialName={column}
+                            existingColumns={columns}
+                            onRename={(newName) => {
+                                if (newName !== column) onRename?.(column, newName);
+                                closeForm();
+                            }}
+                            onCancel={closeForm}
+                        />
+                    )}
+                    {formMode?.kind === "insert" && (
+                        <AddColumnForm
+                            existingColumns={columns}
+                            onAdd={(name, type, defaultValue) => {
+                                const index = formMode.side === "left" ? columnIndex : columnIndex + 1;
+                                onInsertColumn?.(name, type, defaultValue, index);
+                                closeForm();
+                            }}
+                            onCancel={closeForm}
+                        />
+                    )}
+                </PopoverContent>
+            </Popover>
+        </div>
+    );
+};
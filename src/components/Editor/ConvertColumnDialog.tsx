@@ -0,0 +1,147 @@
+import { useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { TableRow } from "@/lib/data-utils";
+import { convertColumn, type ConvertTarget, type FailBehaviour } from "@/lib/convert-utils";
+
+interface ConvertColumnDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    column: string | null;
+    /** The target picked in the column menu. */
+    initialTarget: ConvertTarget;
+    rows: TableRow[];
+    onConvert: (target: ConvertTarget, onFail: FailBehaviour) => void;
+}
+
+const TARGET_OPTIONS: { value: ConvertTarget; label: string }[] = [
+    { value: "text", label: "Text (String)" },
+    { value: "number", label: "Number" },
+    { value: "boolean", label: "Boolean" },
+    { value: "list", label: "List (Array)" },
+    { value: "object", label: "Object (JSON)" },
+    { value: "date", label: "Date (ISO 8601 text)" },
+];
+
+const FAIL_OPTIONS: { value: FailBehaviour; label: string }[] = [
+    { value: "keep", label: "Keep the value" },
+    { value: "null", label: "Set to null" },
+    { value: "drop", label: "Remove the key" },
+];
+
+const MAX_LISTED_FAILURES = 5;
+
+const preview = (value: unknown): string => {
+    const text = JSON.stringify(value) ?? String(value);
+    return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+};
+
+export const ConvertColumnDialog = ({ open, onOpenChange, ...props }: ConvertColumnDialogProps) => (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-lg">
+            {/* Remounted per request, so it starts from the type picked in the menu */}
+            <ConvertColumnForm key={`${props.column}:${props.initialTarget}`} onOpenChange={onOpenChange} {...props} />
+        </DialogContent>
+    </Dialog>
+);
+
+const ConvertColumnForm = ({ onOpenChange, column, initialTarget, rows, onConvert }: Omit<ConvertColumnDialogProps, "open">) => {
+    const [target, setTarget] = useState<ConvertTarget>(initialTarget);
+    const [onFail, setOnFail] = useState<FailBehaviour>("keep");
+
+    // The same conversion that is applied, so the counts are exact
+    const conversion = useMemo(
+        () => (column !== null ? convertColumn(rows, column, target, "keep") : null),
+        [column, rows, target]
+    );
+
+    const handleConvert = () => {
+        onConvert(target, onFail);
+        onOpenChange(false);
+    };
+
+    return (
+        <>
+            <DialogHeader>
+                <DialogTitle>Convert "{column}"</DialogTitle>
+                <DialogDescription>
+                    Converts every value in the column and sets its type, as one step you can undo. Lists and objects convert to and from JSON text.
+                </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid gap-4 py-4">
+                <div className="grid gap-2">
+                    <Label htmlFor="convert-target">Convert to</Label>
+                    <Select value={target} onValueChange={(val) => setTarget(val as ConvertTarget)}>
+                        <SelectTrigger id="convert-target" className="h-9 text-xs font-normal">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {TARGET_OPTIONS.map(opt => (
+                                <SelectItem key={opt.value} value={opt.value}>{opt.label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+
+                {conversion && (
+                    <div className="grid gap-2 text-xs">
+                        <div className="flex gap-4">
+                            <span className="text-green-500">{conversion.converted} convert</span>
+                            <span className="text-muted-foreground">{conversion.unchanged} unchanged</span>
+                            <span className={conversion.failures.length > 0 ? "text-amber-400" : "text-muted-foreground"}>
+                                {conversion.failures.length} can't convert
+                            </span>
+                        </div>
+                        {conversion.samples.length > 0 && (
+                            <div className="rounded-md border border-white/5 font-mono">
+                                {conversion.samples.map(sample => (
+                                    <div key={sample.row} className="flex gap-3 px-3 py-1 border-b border-white/5 last:border-0">
+                                        <span className="w-14 text-muted-foreground">Row {sample.row + 1}</span>
+                                        <span className="flex-1 min-w-0 truncate">{preview(sample.before)} → {preview(sample.after)}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        {conversion.failures.length > 0 && (
+                            <div className="rounded-md border border-amber-400/20 font-mono">
+                                {conversion.failures.slice(0, MAX_LISTED_FAILURES).map(failure => (
+                                    <div key={failure.row} className="flex gap-3 px-3 py-1 border-b border-white/5 last:border-0">
+                                        <span className="w-14 text-muted-foreground">Row {failure.row + 1}</span>
+                                        <span className="flex-1 min-w-0 truncate text-amber-400">{preview(failure.value)}</span>
+                                    </div>
+                                ))}
+                                {conversion.failures.length > MAX_LISTED_FAILURES && (
+                                    <div className="px-3 py-1 text-muted-foreground">And {conversion.failures.length - MAX_LISTED_FAILURES} more.</div>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {conversion && conversion.failures.length > 0 && (
+                    <div className="grid gap-2">
+                        <Label htmlFor="convert-fail">Values that can't be converted</Label>
+                        <Select value={onFail} onValueChange={(val) => setOnFail(val as FailBehaviour)}>
+                            <SelectTrigger id="convert-fail" className="h-9 text-xs font-normal">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {FAIL_OPTIONS.map(opt => (
+                                    <SelectItem key={opt.value} value={opt.value}>{opt.label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                )}
+            </div>
+
+            <DialogFooter>
+                <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+                <Button onClick={handleConvert}>Convert</Button>
+            </DialogFooter>
+        </>
+    );
+};
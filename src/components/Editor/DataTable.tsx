@@ -3,8 +3,8 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFoo
 import { Button } from "@/components/ui/button";
 import { SecondaryButton } from "@/components/ui/secondary-button";
 import { Input } from "@/components/ui/input";
-import { formatArrayOutput, parseArrayInput, type TableRow as RowData, type ColumnSchema, type ColumnType } from "@/lib/data-utils";
-import { Trash2, ArrowUp, ArrowDown, ArrowUpDown, X, Plus, CornerDownLeft, Hash, ToggleLeft, Package, Type as TypeIcon, Brackets } from "lucide-react";
+import { formatArrayOutput, parseArrayInput, type CellValue, type TableRow as RowData, type ColumnSchema, type ColumnType, type CellUpdate } from "@/lib/data-utils";
+import { Trash2, ArrowUp, ArrowDown, ArrowUpDown, X, Plus, CornerDownLeft, Hash, ToggleLeft, Package, Type as TypeIcon, Brackets, Blend } from "lucide-react";
 import { NestedTableModal } from "./NestedTableModal";
 import { SlashMenu } from "./SlashMenu";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
@@ -16,35 +16,109 @@ import { ObjectBadge } from "@/components/ui/object-badge";
 import { ShortcutBadge } from "@/components/ui/shortcut-badge";
 import { ArrayBadge } from "@/components/ui/array-badge";
 import { Badge } from "@/components/ui/badge";
-
-export interface SortConfig {
-    column: string;
-    direction: "asc" | "desc";
-}
+import { ColumnHeaderMenu } from "./ColumnHeaderMenu";
+import { sortRowIndices, type SortConfig } from "@/lib/sort-utils";
+import { useVirtualWindow, scrollIndexIntoView } from "@/hooks/use-virtual-window";
+import { filterRowIndices, countActiveFilters, type ColumnFilter, type FilterConfig } from "@/lib/filter-utils";
+import { ColumnFilterRow } from "./ColumnFilterRow";
+import { valueMatches, type SearchMatch } from "@/lib/search-utils";
+import { rangeCellCount, rangeFromPoints, type CellPosition, type CellRange } from "@/lib/selection-utils";
+import { coercePastedValue, readClipboardGrid, toClipboardJSON, toTSV, writeClipboard } from "@/lib/clipboard-utils";
+import { extendSeries } from "@/lib/fill-utils";
+import type { CellError, RowErrors } from "@/lib/json-schema-utils";
+import { columnTypeReport, describeCounts, type ColumnTypeReport } from "@/lib/type-report-utils";
+
+// Rows are windowed over the scroll position, so every row has the same fixed height
+const ROW_HEIGHT = 61;
+const MIN_COLUMN_WIDTH = 100;
+// Once the schema no longer fits, columns get a fixed width and body cells are windowed horizontally too
+const WIDE_COLUMN_WIDTH = 180;
+const ACTION_COLUMN_WIDTH = 50;
 
 interface DataTableProps {
     data: RowData[];
     columns: string[];
     sortConfig?: SortConfig | null;
-    onSort?: (col: string) => void;
+    /** additive is true on shift-click, to add the column as a secondary sort key */
+    onSort?: (col: string, additive: boolean) => void;
     onUpdateCell?: (rowIdx: number, col: string, value: any) => void;
+    /** Writes several cells as one undo step (e.g. clearing a selection); rows are indices into data */
+    onUpdateCells?: (updates: CellUpdate[], label: string) => void;
     onDeleteRow?: (rowIdx: number) => void;
     onAdd?: (row: RowData) => void;
     // Column Management Handlers
-    onAddColumn?: (name: string, type: ColumnType, defaultValue?: any) => void;
+    onAddColumn?: (name: string, type: ColumnType, defaultValue?: CellValue, index?: number) => void;
     isAddColumnOpen?: boolean;
     onAddColumnOpenChange?: (open: boolean) => void;
     lockColumns?: boolean;
     onDeleteColumn?: (col: string) => void;
     onRenameColumn?: (oldName: string, newName: string) => void;
     onOpenReorder?: () => void;
+    onHideColumn?: (col: string) => void;
+    onChangeColumnType?: (col: string, type: ColumnType) => void;
     schema?: ColumnSchema;
     readOnly?: boolean;
     onEditingChange?: (isEditing: boolean) => void;
+    /** Show the per-column filter row. Filters only apply while it is shown. */
+    showFilters?: boolean;
+    /** Global search: cells whose value (or nested value) matches are highlighted */
+    searchMatcher?: RegExp | null;
+    /** The search hit to jump to; row is an index into data */
+    activeMatch?: SearchMatch | null;
+    /** JSON Schema errors by data index: invalid cells are marked, with the message on hover */
+    rowErrors?: (RowErrors | null)[] | null;
+    /** The schema error to jump to */
+    activeError?: CellError | null;
+    /** Shows how the values of a column are typed (from the header's mixed-type icon and menu) */
+    onOpenTypeReport?: (col: string) => void;
+    /** A cell to scroll to and focus (row is an index into data) */
+    revealCell?: { row: number; col: string } | null;
+    /** Reports the rows in display order (sorted, and filtered while the filter row is shown) as indices into data */
+    onViewOrderChange?: (viewOrder: number[]) => void;
 }
 
+const EMPTY_FILTERS: FilterConfig = { mode: "and", columns: {} };
+
+// Focuses the target cell (if it isn't filtered out of view).
+// Only when the target itself changes, not on every edit that recomputes it.
+const useJumpToCell = (
+    target: { row: number; col: string } | null | undefined,
+    viewOrder: number[],
+    columns: string[],
+    focusCell: (cell: CellPosition) => void
+) => {
+    const jumpedRef = useRef<string | null>(null);
+    useEffect(() => {
+        const key = target ? `${target.row}:${target.col}` : null;
+        if (!target || key === jumpedRef.current) {
+            jumpedRef.current = key;
+            return;
+        }
+        jumpedRef.current = key;
+        const viewIdx = viewOrder.indexOf(target.row);
+        const colIdx = columns.indexOf(target.col);
+        if (viewIdx >= 0 && colIdx >= 0) focusCell({ row: viewIdx, col: colIdx });
+    }, [target, viewOrder, columns, focusCell]);
+};
+
 // --- Sub-components for Performance ---
 
+// Wraps the parts of text matched by a (global) search regex in <mark>
+const highlightText = (text: string, re: RegExp | null | undefined): React.ReactNode => {
+    if (!re) return text;
+    const parts: React.ReactNode[] = [];
+    let last = 0;
+    for (const match of text.matchAll(re)) {
+        const start = match.index ?? 0;
+        if (start > last) parts.push(text.slice(last, start));
+        parts.push(<mark key={start} className="bg-amber-400/30 text-foreground rounded-[2px]">{match[0]}</mark>);
+        last = start + match[0].length;
+    }
+    if (parts.length === 0) return text;
+    if (last < text.length) parts.push(text.slice(last));
+    return parts;
+};
+
 // 1. Editable Cell: Manages its own input state to prevent table-wide re-renders
 interface EditableCellProps {
     initialValue: any;
@@ -90,7 +164,10 @@ const EditableCell: React.FC<EditableCellProps> = ({ initialValue, onSave, onCan
         isSaving.current = true;
 
         let finalValue: any = value;
-        if (Array.isArray(initialValue)) {
+        if ((initialValue === null || initialValue === undefined) && value === "") {
+            // Committing an untouched null or missing cell keeps it that way (rather than writing "")
+            finalValue = initialValue;
+        } else if (Array.isArray(initialValue)) {
             finalValue = parseArrayInput(value);
         } else if (typeof initialValue === 'number') {
             finalValue = Number(value);
@@ -127,47 +204,108 @@ const EditableCell: React.FC<EditableCellProps> = ({ initialValue, onSave, onCan
 interface DataTableRowProps {
     row: RowData;
     rowIdx: number;
-    columns: string[];
+    columns: string[]; // Only the columns in the horizontal window
+    gridTemplate: string;
+    horizontalPad?: { left: number; right: number }; // Space taken by the columns outside the window
     isEditingCell: { col: string } | null; // Only pass the col if this row is being edited
     focusedCol: string | null; // Only pass the col if this row is focused
+    columnOffset: number; // Index (in all columns) of the first column in the window
+    selectedFrom: number; // Column range of the selection in this row, or -1 when the row isn't in it
+    selectedTo: number;
+    isSelectionTop: boolean;
+    isSelectionBottom: boolean;
+    isFillPreview: boolean; // The outlined block is a fill handle drag, not the selection
+    fillHandleCol: number; // Column of the fill handle if it sits in this row, else -1
     isDeleteFocused: boolean; // Is the delete button focused?
-    lastAddedIndex: number | null;
+    isLastAdded: boolean;
+    searchMatcher?: RegExp | null;
+    activeMatchCol: string | null; // Only pass the col if this row holds the active search hit
+    cellErrors: RowErrors | null;
+    activeErrorCol: string | null; // Only pass the col if this row holds the active schema error
     readOnly?: boolean;
     onStartEdit: (rowIdx: number, col: string) => void;
     onUpdateCell: (rowIdx: number, col: string, val: any) => void;
     onCancelEdit: () => void;
     onDeleteRow: (rowIdx: number) => void;
-    onFocusCell: (rowIdx: number, col: string) => void;
+    onFocusCell: (rowIdx: number, col: string, extend: boolean) => void;
     onFocusDelete: (rowIdx: number) => void;
+    onSelectRow: (rowIdx: number, extend: boolean) => void;
+    onStartFill: () => void;
+    onHoverCell: (rowIdx: number, colIdx: number) => void;
     onOpenNested: (rowIdx: number, col: string, data: any) => void;
     onNavigate: (dir: 'next' | 'prev') => void;
 }
 
 const DataTableRow = memo(({
-    row, rowIdx, columns, isEditingCell, focusedCol, isDeleteFocused, lastAddedIndex, readOnly,
-    onStartEdit, onUpdateCell, onCancelEdit, onDeleteRow, onFocusCell, onFocusDelete, onOpenNested, onNavigate
+    row, rowIdx, columns, gridTemplate, horizontalPad, isEditingCell, focusedCol, columnOffset, selectedFrom, selectedTo, isSelectionTop, isSelectionBottom,
+    isFillPreview, fillHandleCol, isDeleteFocused, isLastAdded, searchMatcher, activeMatchCol, cellErrors, activeErrorCol, readOnly,
+    onStartEdit, onUpdateCell, onCancelEdit, onDeleteRow, onFocusCell, onFocusDelete, onSelectRow, onStartFill, onHoverCell, onOpenNested, onNavigate
 }: DataTableRowProps) => {
     return (
         <TableRow
-            className={`group grid w-full items-center border-b last:border-0 hover:bg-muted/5 ${rowIdx === lastAddedIndex ? "animate-new-row" : ""}`}
-            style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(100px, 1fr)) 50px` }}
+            className={`group grid w-full items-center border-b last:border-0 hover:bg-muted/5 ${isLastAdded ? "animate-new-row" : ""}`}
+            style={{ gridTemplateColumns: gridTemplate, height: ROW_HEIGHT }}
         >
-            {columns.map((col) => {
+            {horizontalPad && <td aria-hidden className="p-0" />}
+            {columns.map((col, i) => {
                 const val = row[col];
+                const colIdx = columnOffset + i;
+                const isSelected = colIdx >= selectedFrom && colIdx <= selectedTo;
                 const isEditing = isEditingCell?.col === col;
                 const isFocused = focusedCol === col && !isEditing;
+                const isMatch = !!searchMatcher && valueMatches(val, searchMatcher);
+                const matchClass = !isMatch ? "" : activeMatchCol === col ? "bg-amber-500/20" : "bg-amber-500/5";
+                const error = cellErrors?.[col];
+                const errorClass = !error ? "" : activeErrorCol === col ? "bg-red-500/20" : "bg-red-500/[0.07]";
+                // The row has no such key: hatched, so it reads differently from null and ""
+                const missingClass = val === undefined && !isEditing ? "bg-[repeating-linear-gradient(135deg,transparent_0_5px,rgba(255,255,255,0.035)_5px_10px)]" : "";
 
                 return (
                     <TableCell
                         key={col}
-                        className={`cursor-pointer transition-colors px-4 py-5 overflow-hidden h-full flex items-center relative ${isFocused ? "outline-2 outline-white outline-offset-[-2px] outline-double z-10" : "outline-none"}`}
-                        onClick={() => {
-                            onFocusCell(rowIdx, col);
+                        className={`cursor-pointer transition-colors px-4 py-0 overflow-hidden h-full flex items-center relative ${missingClass} ${matchClass} ${errorClass} ${isFocused ? "outline-2 outline-white outline-offset-[-2px] outline-double z-10" : "outline-none"}`}
+                        title={error}
+                        onMouseDown={(e) => {
+                            if (e.shiftKey) e.preventDefault(); // Shift-click extends the selection, not a text selection
+                        }}
+                        onClick={(e) => {
+                            onFocusCell(rowIdx, col, e.shiftKey);
                             // Optional: Double click to edit handled via onDoubleClick? Or keep single click = focus, double = edit? 
                             // For now, click sets focus. Enter triggers edit.
                         }}
                         onDoubleClick={() => onStartEdit(rowIdx, col)}
+                        onMouseEnter={() => onHoverCell(rowIdx, colIdx)}
                     >
+                        {isSelected && (
+                            // Selection rectangle: tinted cells, outlined on the outer edges of the block
+                            <div
+                                aria-hidden
+                                className={`absolute inset-0 pointer-events-none border-white/50 ${isFillPreview ? "border-dashed" : "bg-white/[0.06] border-solid"}`}
+                                style={{
+                                    borderTopWidth: isSelectionTop ? 1 : 0,
+                                    borderBottomWidth: isSelectionBottom ? 1 : 0,
+                                    borderLeftWidth: colIdx === selectedFrom ? 1 : 0,
+                                    borderRightWidth: colIdx === selectedTo ? 1 : 0,
+                                }}
+                            />
+                        )}
+                        {error && (
+                            // Invalid per the JSON Schema: a red corner, the message is the cell's tooltip
+                            <div aria-hidden className="absolute top-0 right-0 pointer-events-none border-t-[6px] border-l-[6px] border-t-red-500 border-l-transparent" />
+                        )}
+                        {fillHandleCol === colIdx && (
+                            // Fill handle: drag down or right to fill (series are continued)
+                            <div
+                                className="absolute bottom-0 right-0 w-2 h-2 bg-white cursor-crosshair z-20"
+                                onMouseDown={(e) => {
+                                    e.preventDefault();
+                                    e.stopPropagation();
+                                    onStartFill();
+                                }}
+                                onClick={(e) => e.stopPropagation()}
+                                title="Drag to fill"
+                            />
+                        )}
                         {isEditing ? (
                             <EditableCell
                                 initialValue={val}
@@ -192,23 +330,35 @@ const DataTableRow = memo(({
                                         />
                                     ) : (
                                         <Badge variant="info" className="truncate max-w-full font-mono font-normal">
-                                            {formatArrayOutput(val)}
+                                            {highlightText(formatArrayOutput(val), searchMatcher)}
                                         </Badge>
                                     )
                                 ) : typeof val === 'boolean' ? (
                                     <div className="flex">
                                         <BooleanBadge value={val} />
                                     </div>
+                                ) : val === null ? (
+                                    <span className="px-1.5 rounded-[4px] bg-muted/40 font-mono text-[11px] text-muted-foreground/60" title="null (⌥⌫ removes the key, ⌘⌫ sets an empty string)">null</span>
+                                ) : val === undefined ? (
+                                    <span className="text-[11px] italic text-muted-foreground/40" title="Missing: this row has no such key (⌫ sets null, ⌘⌫ an empty string)">missing</span>
                                 ) : (
-                                    <span className={`truncate text-sm w-full ${typeof val === 'number' ? "font-mono" : ""}`}>{String(val ?? "")}</span>
+                                    <span className={`truncate text-sm w-full ${typeof val === 'number' ? "font-mono" : ""}`}>{highlightText(String(val), searchMatcher)}</span>
                                 )}
                             </div>
                         )}
                     </TableCell>
                 );
             })}
+            {horizontalPad && <td aria-hidden className="p-0" />}
             {!readOnly && (
-                <TableCell className="w-[50px] flex items-center justify-center p-0">
+                <TableCell
+                    className="w-[50px] flex items-center justify-center p-0 h-full cursor-default"
+                    onMouseDown={(e) => {
+                        if (e.shiftKey) e.preventDefault();
+                    }}
+                    onClick={(e) => onSelectRow(rowIdx, e.shiftKey)} // Selects the whole row (shift: up to this row)
+                    title="Select row"
+                >
                     <Button
                         variant="destructive-ghost"
                         size="icon"
@@ -235,9 +385,10 @@ interface QuickAddFooterProps {
     onFocus?: () => void;
     columnTypes: Record<string, string>;
     data: RowData[];
+    gridTemplate: string;
 }
 
-const QuickAddFooter: React.FC<QuickAddFooterProps> = ({ columns, onAdd, firstInputRef, onOpenNested, onFocus, columnTypes, data }) => {
+const QuickAddFooter: React.FC<QuickAddFooterProps> = ({ columns, onAdd, firstInputRef, onOpenNested, onFocus, columnTypes, data, gridTemplate }) => {
     const [values, setValues] = useState<Record<string, any>>({});
     const [types, setTypes] = useState<Record<string, 'auto' | 'text' | 'number' | 'boolean'>>({});
     const [errors, setErrors] = useState<Record<string, boolean>>({});
@@ -439,7 +590,7 @@ const QuickAddFooter: React.FC<QuickAddFooterProps> = ({ columns, onAdd, firstIn
                 setFocusTarget(col);
                 break;
             case 'obj':
-            case 'list':
+            case 'list': {
                 // Open Nested Modal immediately
                 const initialData = command === 'obj' ? {} : [];
                 onOpenNested(col, initialData, (savedData) => {
@@ -447,6 +598,7 @@ const QuickAddFooter: React.FC<QuickAddFooterProps> = ({ columns, onAdd, firstIn
                 });
                 setValues(prev => ({ ...prev, [col]: "" })); // Clear input while modal opens
                 break;
+            }
         }
         setMenuState(null);
     };
@@ -455,7 +607,7 @@ const QuickAddFooter: React.FC<QuickAddFooterProps> = ({ columns, onAdd, firstIn
         <TableFooter className="glass z-10 border-t flex-none w-full block">
             <TableRow
                 className="grid w-full items-center hover:bg-transparent"
-                style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(100px, 1fr)) 50px` }}
+                style={{ gridTemplateColumns: gridTemplate }}
             >
                 {columns.map((col, idx) => {
                     const value = values[col];
@@ -615,6 +767,7 @@ export const DataTable: React.FC<DataTableProps> = ({
     sortConfig,
     onSort,
     onUpdateCell,
+    onUpdateCells,
     onDeleteRow,
     onAdd,
     readOnly = false,
@@ -622,21 +775,107 @@ export const DataTable: React.FC<DataTableProps> = ({
     onAddColumn,
     isAddColumnOpen,
     onAddColumnOpenChange,
+    lockColumns = false,
+    onDeleteColumn,
+    onRenameColumn,
+    onOpenReorder,
+    onHideColumn,
+    onChangeColumnType,
     schema,
+    showFilters = false,
+    searchMatcher,
+    activeMatch,
+    rowErrors,
+    activeError,
+    onOpenTypeReport,
+    revealCell,
+    onViewOrderChange,
 }) => {
     const [editingCell, setEditingCell] = useState<{ row: number; col: string } | null>(null);
-    const [focusedCell, setFocusedCell] = useState<{ row: number; col: number } | null>(null);
+    // The focused cell, and the other corner of the selected block (null: just the focused cell).
+    // Kept together so moving the focus and extending the selection are one update.
+    const [cursor, setCursor] = useState<{ focus: CellPosition | null; anchor: CellPosition | null }>({ focus: null, anchor: null });
+    const focusedCell = cursor.focus;
+    const setFocusedCell = useCallback((cell: CellPosition | null) => setCursor({ focus: cell, anchor: null }), []);
+    // Moves the focus but keeps the anchor (shift+click, shift+arrows)
+    const extendSelection = useCallback((cell: CellPosition) => {
+        setCursor(prev => ({ focus: cell, anchor: prev.anchor ?? prev.focus ?? cell }));
+    }, []);
     const [lastAddedIndex, setLastAddedIndex] = useState<number | null>(null);
     // nestedModal state updated to support onSave callback
     const [nestedModal, setNestedModal] = useState<{ open: boolean; title: string; type?: string; data: any; rowIdx: number; col: string; onSave?: (data: any) => void } | null>(null);
 
-    const tableBodyRef = useRef<HTMLTableSectionElement>(null);
+    const tableBodyRef = useRef<HTMLTableSectionElement>(null); // Vertical scroller
+    const tableScrollXRef = useRef<HTMLDivElement>(null); // Horizontal scroller (header, body and footer together)
     const tableContainerRef = useRef<HTMLDivElement>(null); // For capturing key events
     const firstInputRef = useRef<HTMLInputElement>(null);
 
     const shouldScrollRef = useRef(false);
     const hasFocusedInitial = useRef(false);
 
+    // Display order as indices into data. Row numbers in focus/edit state refer to this order
+    // and are translated back to data indices before anything is written.
+    const [filters, setFilters] = useState<FilterConfig>(EMPTY_FILTERS);
+    const sortedOrder = React.useMemo(() => sortRowIndices(data, sortConfig, schema), [data, sortConfig, schema]);
+    const viewOrder = React.useMemo(
+        () => showFilters ? filterRowIndices(data, sortedOrder, filters) : sortedOrder,
+        [data, sortedOrder, filters, showFilters]
+    );
+    const activeFilterCount = countActiveFilters(filters);
+
+    // The editor steps through search hits and schema errors in this order
+    useEffect(() => {
+        onViewOrderChange?.(viewOrder);
+    }, [viewOrder, onViewOrderChange]);
+
+    const handleFilterChange = useCallback((col: string, filter: ColumnFilter | null) => {
+        setFilters(prev => {
+            const next = { ...prev.columns };
+            if (filter) next[col] = filter;
+            else delete next[col];
+            return { ...prev, columns: next };
+        });
+    }, []);
+
+    // Windowed rendering: only the rows (and, for wide schemas, the columns) in view are mounted
+    const rowWindow = useVirtualWindow(tableBodyRef, {
+        count: viewOrder.length,
+        itemSize: ROW_HEIGHT,
+        enabled: data.length > 0,
+    });
+    const colWindow = useVirtualWindow(tableScrollXRef, {
+        count: columns.length,
+        itemSize: WIDE_COLUMN_WIDTH,
+        overscan: 2,
+        axis: "horizontal",
+        enabled: data.length > 0,
+    });
+    const isWide = colWindow.viewportSize > 0 && columns.length * MIN_COLUMN_WIDTH + ACTION_COLUMN_WIDTH > colWindow.viewportSize;
+    const gridTemplate = isWide
+        ? `repeat(${columns.length}, ${WIDE_COLUMN_WIDTH}px) ${ACTION_COLUMN_WIDTH}px`
+        : `repeat(${columns.length}, minmax(${MIN_COLUMN_WIDTH}px, 1fr)) ${ACTION_COLUMN_WIDTH}px`;
+    const renderedColumns = React.useMemo(
+        () => isWide ? columns.slice(colWindow.start, colWindow.end) : columns,
+        [columns, isWide, colWindow.start, colWindow.end]
+    );
+    const horizontalPad = React.useMemo(
+        () => isWide ? { left: colWindow.before, right: colWindow.after } : undefined,
+        [isWide, colWindow.before, colWindow.after]
+    );
+    // The selected block, clamped to the data columns (the focus can sit on a row's delete button).
+    // null while the selection is just the focused cell.
+    const selectedRange = React.useMemo((): CellRange | null => {
+        const { focus, anchor } = cursor;
+        if (!focus || !anchor || columns.length === 0) return null;
+        const clamp = (cell: CellPosition) => ({ row: cell.row, col: Math.min(cell.col, columns.length - 1) });
+        const range = rangeFromPoints(clamp(anchor), clamp(focus));
+        return rangeCellCount(range) > 1 ? range : null;
+    }, [cursor, columns.length]);
+
+    const rowGridTemplate = horizontalPad
+        ? `${horizontalPad.left}px repeat(${renderedColumns.length}, ${WIDE_COLUMN_WIDTH}px) ${horizontalPad.right}px ${ACTION_COLUMN_WIDTH}px`
+        : gridTemplate;
+
     // Notify parent about editing state
     useEffect(() => {
         onEditingChange?.(!!editingCell);
@@ -652,11 +891,12 @@ export const DataTable: React.FC<DataTableProps> = ({
                 tableContainerRef.current?.focus();
             }, 50);
         }
-    }, [data.length]);
+    }, [data.length, focusedCell, setFocusedCell]);
 
     useEffect(() => {
         if (shouldScrollRef.current && tableBodyRef.current) {
-            tableBodyRef.current.scrollTop = tableBodyRef.current.scrollHeight;
+            // The new row is last in data, but not necessarily last in view (e.g. when sorted)
+            scrollIndexIntoView(tableBodyRef.current, viewOrder.indexOf(data.length - 1), ROW_HEIGHT);
             shouldScrollRef.current = false;
 
             if (firstInputRef.current) {
@@ -664,35 +904,43 @@ export const DataTable: React.FC<DataTableProps> = ({
             }
 
             setLastAddedIndex(data.length - 1);
-            const timer = setTimeout(() => setLastAddedIndex(null), 2000);
-            return () => clearTimeout(timer);
         }
-    }, [data.length]);
+    }, [data.length, viewOrder]);
+
+    // The added row's highlight fades after a moment (its own effect: edits in the meantime re-run the one above)
+    useEffect(() => {
+        if (lastAddedIndex === null) return;
+        const timer = setTimeout(() => setLastAddedIndex(null), 2000);
+        return () => clearTimeout(timer);
+    }, [lastAddedIndex]);
+
+    // Every value is counted, so a column of numbers with a few "N/A" strings is a (mixed) number column
+    const typeReports = React.useMemo(() => {
+        const reports: Record<string, ColumnTypeReport> = {};
+        columns.forEach(col => {
+            reports[col] = columnTypeReport(data, col);
+        });
+        return reports;
+    }, [data, columns]);
 
     const columnTypes = React.useMemo(() => {
         const types: Record<string, string> = {};
         columns.forEach(col => {
-            const rowWithData = data.find(row => row[col] !== null && row[col] !== undefined);
-            if (rowWithData) {
-                const val = rowWithData[col];
-                if (Array.isArray(val)) types[col] = "array";
-                else if (val === null) types[col] = "string";
-                else types[col] = typeof val;
-            } else {
-                types[col] = "string";
-            }
+            // Kinds are named like typeof: "number", "string", "boolean", "array", "object"
+            types[col] = typeReports[col].dominant ?? "string";
             const st = schema?.[col];
             if (st === "list") types[col] = "array";
             else if (st === "object") types[col] = "object";
         });
         return types;
-    }, [data, columns, schema]);
+    }, [typeReports, columns, schema]);
 
     // Use callbacks to maintain referential identity for Memoized rows
     const handleStartEdit = useCallback((rowIdx: number, col: string) => {
         if (readOnly) return;
 
-        const val = data[rowIdx]?.[col];
+        const dataIdx = viewOrder[rowIdx];
+        const val = data[dataIdx]?.[col];
         // If value is object, always open modal
         // If value is array, check content:
         // - Array of objects -> Modal
@@ -712,14 +960,14 @@ export const DataTable: React.FC<DataTableProps> = ({
                 title: col,
                 type: columnTypes[col],
                 data: val,
-                rowIdx,
+                rowIdx: dataIdx,
                 col
             });
             return;
         }
 
         setEditingCell({ row: rowIdx, col });
-    }, [data, readOnly, columnTypes]);
+    }, [data, viewOrder, readOnly, columnTypes]);
 
     const handleCancelEdit = useCallback(() => {
         setEditingCell(null);
@@ -727,12 +975,183 @@ export const DataTable: React.FC<DataTableProps> = ({
         tableContainerRef.current?.focus();
     }, []);
 
+    const handleFocusCell = useCallback((rowIdx: number, col: string, extend: boolean) => {
+        const cell = { row: rowIdx, col: columns.indexOf(col) };
+        if (extend) extendSelection(cell);
+        else setFocusedCell(cell);
+    }, [columns, extendSelection, setFocusedCell]);
+
+    // Whole rows: from the anchor's row (when extending) to rowIdx
+    const handleSelectRow = useCallback((rowIdx: number, extend: boolean) => {
+        setCursor(prev => {
+            const fromRow = extend && prev.focus ? (prev.anchor ?? prev.focus).row : rowIdx;
+            return { anchor: { row: fromRow, col: columns.length - 1 }, focus: { row: rowIdx, col: 0 } };
+        });
+    }, [columns.length]);
+
+    // Whole columns, fromCol to toCol
+    const handleSelectColumns = useCallback((fromCol: number, toCol: number) => {
+        if (viewOrder.length === 0) return;
+        setCursor({ anchor: { row: viewOrder.length - 1, col: fromCol }, focus: { row: 0, col: toCol } });
+    }, [viewOrder.length]);
+
+    const handleSelectAll = useCallback(() => {
+        if (viewOrder.length === 0 || columns.length === 0) return;
+        setCursor({ anchor: { row: viewOrder.length - 1, col: columns.length - 1 }, focus: { row: 0, col: 0 } });
+    }, [viewOrder.length, columns.length]);
+
+    // Delete/Backspace on a selection sets every selected cell to null (with Alt: removes the keys; with Cmd/Ctrl: empty strings), as one undo step
+    const handleClearRange = useCallback((range: CellRange, value: null | undefined | "") => {
+        if (readOnly || !onUpdateCells) return;
+        const updates: CellUpdate[] = [];
+        for (let r = range.top; r <= range.bottom; r++) {
+            for (let c = range.left; c <= range.right; c++) {
+                updates.push({ row: viewOrder[r], col: columns[c], value });
+            }
+        }
+        const label = value === undefined ? `Remove ${updates.length} keys` : value === "" ? `Empty ${updates.length} cells` : `Clear ${updates.length} cells`;
+        onUpdateCells(updates, label);
+    }, [readOnly, onUpdateCells, viewOrder, columns]);
+
+    // Copies a block as TSV (for spreadsheets) plus JSON (keeps types when pasted back in here)
+    const handleCopyRange = useCallback((range: CellRange) => {
+        const rangeColumns = columns.slice(range.left, range.right + 1);
+        const grid = viewOrder.slice(range.top, range.bottom + 1).map(dataIdx => rangeColumns.map(col => data[dataIdx]?.[col]));
+        writeClipboard({
+            "text/plain": toTSV(grid),
+            "application/json": toClipboardJSON(grid, rangeColumns),
+        });
+    }, [columns, viewOrder, data]);
+
+    // The selection, or the focused cell as a 1×1 block: what Cmd+C copies and the fill handle extends
+    const activeRange = React.useMemo((): CellRange | null => {
+        if (selectedRange) return selectedRange;
+        if (!focusedCell || focusedCell.col >= columns.length) return null;
+        return { top: focusedCell.row, left: focusedCell.col, bottom: focusedCell.row, right: focusedCell.col };
+    }, [selectedRange, focusedCell, columns.length]);
+    const [fillDrag, setFillDrag] = useState<{ source: CellRange; target: CellRange } | null>(null);
+
+    // Writes the source block's values into the rest of target (which extends it down or right), as one undo step.
+    // asSeries continues numeric/date/"item-1" series (fill handle); otherwise values are copied (Cmd+D / Cmd+R).
+    // Values are converted to each target column's type.
+    const fillRange = useCallback((source: CellRange, target: CellRange, asSeries: boolean) => {
+        if (readOnly || !onUpdateCells) return;
+        const valueAt = (viewRow: number, colIdx: number) => data[viewOrder[viewRow]]?.[columns[colIdx]];
+        const next = (sample: unknown[], count: number) => asSeries
+            ? extendSeries(sample, count)
+            : Array.from({ length: count }, (_, i) => sample[i % sample.length]);
+
+        const updates: CellUpdate[] = [];
+        const write = (viewRow: number, colIdx: number, value: unknown) => {
+            const col = columns[colIdx];
+            if (value === undefined || col === undefined || viewRow >= viewOrder.length) return;
+            updates.push({ row: viewOrder[viewRow], col, value: coercePastedValue(value, schema?.[col]) });
+        };
+
+        if (target.bottom > source.bottom) {
+            const count = target.bottom - source.bottom;
+            for (let c = source.left; c <= source.right; c++) {
+                const sample = [];
+                for (let r = source.top; r <= source.bottom; r++) sample.push(valueAt(r, c));
+                next(sample, count).forEach((value, i) => write(source.bottom + 1 + i, c, value));
+            }
+        } else if (target.right > source.right) {
+            const count = target.right - source.right;
+            for (let r = source.top; r <= source.bottom; r++) {
+                const sample = [];
+                for (let c = source.left; c <= source.right; c++) sample.push(valueAt(r, c));
+                next(sample, count).forEach((value, i) => write(r, source.right + 1 + i, value));
+            }
+        }
+        if (updates.length === 0) return;
+        onUpdateCells(updates, `Fill ${updates.length} cell${updates.length === 1 ? "" : "s"}`);
+    }, [readOnly, onUpdateCells, data, viewOrder, columns, schema]);
+
+    const handleStartFill = useCallback(() => {
+        if (readOnly || !onUpdateCells || !activeRange) return;
+        setFillDrag({ source: activeRange, target: activeRange });
+    }, [readOnly, onUpdateCells, activeRange]);
+
+    // While dragging the fill handle, the target grows down or right (whichever the pointer is further along)
+    const handleHoverCell = useCallback((rowIdx: number, colIdx: number) => {
+        setFillDrag(prev => {
+            if (!prev) return prev;
+            const { source } = prev;
+            const down = rowIdx - source.bottom;
+            const right = colIdx - source.right;
+            const target = down <= 0 && right <= 0 ? source
+                : down >= right ? { ...source, bottom: rowIdx }
+                : { ...source, right: colIdx };
+            const same = target.bottom === prev.target.bottom && target.right === prev.target.right;
+            return same ? prev : { source, target };
+        });
+    }, []);
+
+    useEffect(() => {
+        if (!fillDrag) return;
+        const handleMouseUp = () => {
+            fillRange(fillDrag.source, fillDrag.target, true);
+            setFillDrag(null);
+            const { target } = fillDrag;
+            setCursor({ focus: { row: target.top, col: target.left }, anchor: { row: target.bottom, col: target.right } });
+        };
+        window.addEventListener("mouseup", handleMouseUp);
+        return () => window.removeEventListener("mouseup", handleMouseUp);
+    }, [fillDrag, fillRange]);
+
+    // Pastes a block at the focused cell (or the selection's top-left), typed per column, as one undo step.
+    // A single value pasted over a selection fills it. Rows past the end are added; columns past the last one are dropped.
+    const handlePaste = (e: React.ClipboardEvent) => {
+        // defaultPrevented: already pasted by a nested table (portaled dialogs bubble through React)
+        if (e.defaultPrevented || readOnly || !onUpdateCells || editingCell || !focusedCell || focusedCell.col >= columns.length) return;
+        const target = e.target as HTMLElement;
+        if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+
+        const grid = readClipboardGrid(e.clipboardData);
+        if (!grid) return;
+        e.preventDefault(); // Also keeps the app from opening the clipboard as a new document
+
+        const origin = selectedRange ? { row: selectedRange.top, col: selectedRange.left } : focusedCell;
+        const fillsSelection = !!selectedRange && grid.length === 1 && grid[0].length === 1;
+        const rowCount = fillsSelection ? selectedRange.bottom - selectedRange.top + 1 : grid.length;
+        const colCount = fillsSelection ? selectedRange.right - selectedRange.left + 1 : Math.max(...grid.map(r => r.length));
+
+        const updates: CellUpdate[] = [];
+        for (let r = 0; r < rowCount; r++) {
+            const viewRow = origin.row + r;
+            // Past the last visible row: new rows at the end of the data
+            const dataIdx = viewRow < viewOrder.length ? viewOrder[viewRow] : data.length + (viewRow - viewOrder.length);
+            for (let c = 0; c < colCount; c++) {
+                const col = columns[origin.col + c];
+                if (col === undefined) break;
+                const raw = fillsSelection ? grid[0][0] : grid[r][c];
+                if (raw === undefined) continue;
+                updates.push({ row: dataIdx, col, value: coercePastedValue(raw, schema?.[col]) });
+            }
+        }
+        if (updates.length === 0) return;
+        onUpdateCells(updates, `Paste ${updates.length} cell${updates.length === 1 ? "" : "s"}`);
+
+        // Select what was pasted (within the rows that were already there)
+        const lastRow = Math.min(origin.row + rowCount - 1, viewOrder.length - 1);
+        const lastCol = Math.min(origin.col + colCount - 1, columns.length - 1);
+        setCursor({ focus: origin, anchor: { row: lastRow, col: lastCol } });
+    };
+
+    const handleFocusDelete = useCallback((rowIdx: number) => {
+        setFocusedCell({ row: rowIdx, col: columns.length });
+    }, [columns.length, setFocusedCell]);
+
+    const handleOpenNested = useCallback((rowIdx: number, col: string, nestedData: unknown) => {
+        setNestedModal({ open: true, title: col, type: columnTypes[col], data: nestedData, rowIdx: viewOrder[rowIdx], col });
+    }, [columnTypes, viewOrder]);
+
     const handleNavigate = useCallback((dir: 'next' | 'prev') => {
         if (!editingCell) return;
         const { row, col: colName } = editingCell;
         const colIdx = columns.indexOf(colName);
         const colCount = columns.length;
-        const rowCount = data.length;
+        const rowCount = viewOrder.length;
 
         if (dir === 'next') {
             if (colIdx < colCount) {
@@ -749,14 +1168,19 @@ export const DataTable: React.FC<DataTableProps> = ({
         }
         setEditingCell(null);
         tableContainerRef.current?.focus();
-    }, [editingCell, columns, data.length]);
+    }, [editingCell, columns, viewOrder.length, setFocusedCell]);
 
     const handleUpdateCell = useCallback((rowIdx: number, col: string, val: any) => {
         if (readOnly || !onUpdateCell) return;
-        onUpdateCell(rowIdx, col, val);
+        onUpdateCell(viewOrder[rowIdx], col, val);
         setEditingCell(null);
         tableContainerRef.current?.focus();
-    }, [onUpdateCell, readOnly]);
+    }, [onUpdateCell, readOnly, viewOrder]);
+
+    const handleDeleteRow = useCallback((rowIdx: number) => {
+        if (readOnly || !onDeleteRow) return;
+        onDeleteRow(viewOrder[rowIdx]);
+    }, [onDeleteRow, readOnly, viewOrder]);
 
     const handleAddRow = useCallback((row: RowData) => {
         if (readOnly || !onAdd) return;
@@ -767,11 +1191,23 @@ export const DataTable: React.FC<DataTableProps> = ({
 
     useEffect(() => {
         if (focusedCell) {
-            if (focusedCell.row >= data.length) {
-                setFocusedCell({ row: Math.max(0, data.length - 1), col: focusedCell.col });
+            if (focusedCell.row >= viewOrder.length) {
+                setFocusedCell({ row: Math.max(0, viewOrder.length - 1), col: focusedCell.col });
             }
         }
-    }, [data.length, focusedCell]);
+    }, [viewOrder.length, focusedCell, setFocusedCell]);
+
+    // Jump to the active search hit and the active schema error
+    useJumpToCell(activeMatch, viewOrder, columns, setFocusedCell);
+    useJumpToCell(activeError, viewOrder, columns, setFocusedCell);
+    useJumpToCell(revealCell, viewOrder, columns, setFocusedCell);
+
+    // Keep the focused cell on screen, since rows and columns outside the window aren't mounted
+    useEffect(() => {
+        if (!focusedCell) return;
+        scrollIndexIntoView(tableBodyRef.current, focusedCell.row, ROW_HEIGHT);
+        if (isWide) scrollIndexIntoView(tableScrollXRef.current, focusedCell.col, WIDE_COLUMN_WIDTH, "horizontal");
+    }, [focusedCell, isWide]);
 
     // Keyboard Navigation Logic
     const handleTableKeyDown = (e: React.KeyboardEvent) => {
@@ -786,14 +1222,15 @@ export const DataTable: React.FC<DataTableProps> = ({
             target.tagName === 'TEXTAREA' ||
             target.tagName === 'BUTTON' ||
             target.isContentEditable ||
-            target.closest('[role="dialog"]') // Ignore if inside a dialog/popover
+            target.closest('[role="dialog"]') || // Ignore if inside a dialog/popover
+            target.closest('[role="menu"]') // ...or a (portaled) dropdown menu
         ) return;
 
         // If we are editing, let the input handle it (unless it propagates, but we stopped prop in EditableCell)
         if (editingCell) return;
 
         // Handle Re-entry with Arrows if no cell is focused but container is focused
-        if (!focusedCell && data.length > 0) {
+        if (!focusedCell && viewOrder.length > 0) {
             if (e.key.startsWith("Arrow")) {
                 e.preventDefault();
                 setFocusedCell({ row: 0, col: 0 });
@@ -802,11 +1239,11 @@ export const DataTable: React.FC<DataTableProps> = ({
         }
 
         // If no data or focus, ignore
-        if (!focusedCell || data.length === 0) return;
+        if (!focusedCell || viewOrder.length === 0) return;
 
         const { row, col } = focusedCell;
         const colCount = columns.length;
-        const rowCount = data.length;
+        const rowCount = viewOrder.length;
 
         // Shortcuts that don't depend on specific keys first
         if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
@@ -815,10 +1252,64 @@ export const DataTable: React.FC<DataTableProps> = ({
             return;
         }
 
+        // Cmd+C copies the selected block, or just the focused cell (the whole document is copied from the toolbar)
+        if ((e.metaKey || e.ctrlKey) && !e.shiftKey && e.key.toLowerCase() === "c" && activeRange && !window.getSelection()?.toString()) {
+            e.preventDefault();
+            e.stopPropagation(); // Keep the app-wide copy shortcut out of it
+            handleCopyRange(activeRange);
+            return;
+        }
+
+        // Cmd+D / Cmd+R: fill the selection down / right from its first row / column
+        // (no selection: copy the cell above / to the left into the focused cell)
+        const fillKey = e.key.toLowerCase();
+        if ((e.metaKey || e.ctrlKey) && !e.shiftKey && (fillKey === "d" || fillKey === "r") && col < colCount) {
+            e.preventDefault(); // Not the browser's bookmark / reload
+            const down = fillKey === "d";
+            const target = selectedRange ?? (down
+                ? { top: row - 1, left: col, bottom: row, right: col }
+                : { top: row, left: col - 1, bottom: row, right: col });
+            if (target.top < 0 || target.left < 0) return;
+            const source = down ? { ...target, bottom: target.top } : { ...target, right: target.left };
+            fillRange(source, target, false);
+            return;
+        }
+
+        // Selection: Cmd+A selects everything, Shift+Space whole rows, Ctrl/Cmd+Space whole columns
+        if ((e.metaKey || e.ctrlKey) && !e.shiftKey && e.key.toLowerCase() === "a") {
+            e.preventDefault();
+            handleSelectAll();
+            return;
+        }
+        if (e.key === " " && col < colCount && (e.shiftKey || e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            const anchor = cursor.anchor ?? focusedCell;
+            if (e.shiftKey) {
+                setCursor({ anchor: { row: anchor.row, col: colCount - 1 }, focus: { row, col: 0 } });
+            } else {
+                handleSelectColumns(Math.min(anchor.col, colCount - 1), col);
+            }
+            return;
+        }
+
+        // Shift+Arrows extend the selection (not into the delete buttons)
+        if (e.shiftKey && e.key.startsWith("Arrow") && col < colCount) {
+            e.preventDefault();
+            const next = {
+                ArrowUp: { row: Math.max(0, row - 1), col },
+                ArrowDown: { row: Math.min(rowCount - 1, row + 1), col },
+                ArrowLeft: { row, col: Math.max(0, col - 1) },
+                ArrowRight: { row, col: Math.min(colCount - 1, col + 1) },
+            }[e.key];
+            if (next) extendSelection(next);
+            return;
+        }
+
         switch (e.key) {
             case "Escape":
                 e.preventDefault();
-                setFocusedCell(null);
+                // First collapse a selection to the focused cell, then release focus
+                setFocusedCell(cursor.anchor ? focusedCell : null);
                 // We keep focus on the container, so native Tab will move to the next focusable element (Buttons in header or Footer inputs)
                 break;
             case "ArrowUp":
@@ -874,7 +1365,7 @@ export const DataTable: React.FC<DataTableProps> = ({
                 e.preventDefault();
                 if (col === colCount) {
                     // Delete Button
-                    if (!readOnly && onDeleteRow) onDeleteRow(row);
+                    handleDeleteRow(row);
                 } else {
                     // Start editing the focused cell
                     if (!readOnly) {
@@ -887,18 +1378,19 @@ export const DataTable: React.FC<DataTableProps> = ({
                 break;
             case "Delete":
             case "Backspace":
-                if (!readOnly && !editingCell && !e.metaKey && !e.ctrlKey) {
-                    if (e.shiftKey || col === colCount) {
+                if (!readOnly && !editingCell) {
+                    const withCmd = e.metaKey || e.ctrlKey;
+                    if (!withCmd && (e.shiftKey || col === colCount)) {
                         // Shift + Delete/Backspace OR on Delete Button = Delete Row
                         e.preventDefault();
-                        if (onDeleteRow) onDeleteRow(row);
-                    } else {
-                        // Regular Delete/Backspace = Clear Value
+                        handleDeleteRow(row);
+                    } else if (col < colCount) {
+                        // Regular Delete/Backspace = set to null; with Alt = remove the key from the row; with Cmd/Ctrl = empty string
                         e.preventDefault();
-                        const colName = columns[col];
-                        if (colName) {
-                            handleUpdateCell(row, colName, "");
-                        }
+                        if (withCmd) e.stopPropagation(); // Not the app-wide Cmd+Backspace (clear workspace)
+                        const value = withCmd ? "" : e.altKey ? undefined : null;
+                        if (selectedRange && onUpdateCells) handleClearRange(selectedRange, value);
+                        else handleUpdateCell(row, columns[col], value);
                     }
                 }
                 break;
@@ -917,6 +1409,10 @@ export const DataTable: React.FC<DataTableProps> = ({
         }
     };
 
+    // While dragging the fill handle the drag target is outlined instead of the selection
+    const shownRange = fillDrag ? fillDrag.target : selectedRange;
+    const handleRange = !readOnly && onUpdateCells && !editingCell ? fillDrag?.target ?? activeRange : null;
+
     if (data.length === 0) {
         return (
             <div className="text-center py-20 text-muted-foreground bg-muted/10 rounded-lg border border-dashed">
@@ -931,123 +1427,243 @@ export const DataTable: React.FC<DataTableProps> = ({
             ref={tableContainerRef}
             tabIndex={0}
             onKeyDown={handleTableKeyDown}
+            onPaste={handlePaste}
             onFocus={handleContainerFocus}
         >
-            <Table className="flex flex-col h-full w-full">
-                <TableHeader className="glass z-10 flex-none w-full block">
-                    <TableRow
-                        className="grid w-full items-center border-b hover:bg-transparent"
-                        style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(100px, 1fr)) 50px` }}
-                    >
-                        {columns.map((col) => {
-                            const isSorted = sortConfig?.column === col;
-                            return (
-                                <TableHead
-                                    key={col}
-                                    className={`flex items-center px-4 py-5 font-semibold ${!readOnly && onSort ? 'cursor-pointer hover:bg-muted/50' : ''} transition-colors select-none overflow-hidden ${isSorted ? "text-foreground font-bold" : ""}`}
-                                    onClick={() => !readOnly && onSort?.(col)}
-                                >
-                                    <div className="flex items-center gap-2 truncate w-full">
-                                        <div className="flex items-center gap-2 truncate">
-                                            {(() => {
-                                                const type = columnTypes[col];
-                                                const iconClass = "w-3.5 h-3.5 text-muted-foreground/70";
-                                                switch (type) {
-                                                    case 'number': return <Hash className={iconClass} />;
-                                                    case 'boolean': return <ToggleLeft className={iconClass} />;
-                                                    case 'object': return <Package className={iconClass} />;
-                                                    case 'array': return <Brackets className={iconClass} />;
-                                                    default: return <TypeIcon className={iconClass} />;
-                                                }
-                                            })()}
-                                            <span className="truncate text-foreground font-medium">{col}</span>
-                                        </div>
-                                        {isSorted ? (
-                                            sortConfig.direction === "asc" ? (
-                                                <ArrowUp className="w-3 h-3 text-green-500 shrink-0" />
+            <div ref={tableScrollXRef} className="flex-1 min-h-0 overflow-x-auto overflow-y-hidden">
+                <Table
+                    className="flex flex-col h-full w-full"
+                    style={isWide ? { width: columns.length * WIDE_COLUMN_WIDTH + ACTION_COLUMN_WIDTH } : undefined}
+                >
+                    <TableHeader className="glass z-10 flex-none w-full block">
+                        <TableRow
+                            className="grid w-full items-center border-b hover:bg-transparent"
+                            style={{ gridTemplateColumns: gridTemplate }}
+                        >
+                            {columns.map((col, colIdx) => {
+                                const sortIdx = sortConfig?.keys.findIndex(k => k.column === col) ?? -1;
+                                const sortKey = sortIdx >= 0 ? sortConfig!.keys[sortIdx] : null;
+                                const isSorted = !!sortKey;
+                                const showMenu = !readOnly && !lockColumns;
+                                return (
+                                    <TableHead
+                                        key={col}
+                                        className={`group/header flex items-center px-4 py-5 font-semibold ${!readOnly && onSort ? 'cursor-pointer hover:bg-muted/50' : ''} transition-colors select-none overflow-hidden ${isSorted ? "text-foreground font-bold" : ""}`}
+                                        onClick={(e) => !readOnly && onSort?.(col, e.shiftKey)}
+                                        title={!readOnly && onSort ? "Click to sort, shift-click to add a secondary sort" : undefined}
+                                    >
+                                        <div className="flex items-center gap-2 truncate w-full">
+                                            <div className="flex items-center gap-2 truncate">
+                                                {(() => {
+                                                    const report = typeReports[col];
+                                                    if (report.isMixed) {
+                                                        return (
+                                                            <button
+                                                                type="button"
+                                                                className="shrink-0 text-amber-400 hover:text-amber-300 disabled:pointer-events-none"
+                                                                onClick={(e) => {
+                                                                    e.stopPropagation();
+                                                                    onOpenTypeReport?.(col);
+                                                                }}
+                                                                disabled={!onOpenTypeReport}
+                                                                title={`Mixed types: ${describeCounts(report.counts)}`}
+                                                            >
+                                                                <Blend className="w-3.5 h-3.5" />
+                                                            </button>
+                                                        );
+                                                    }
+                                                    const type = columnTypes[col];
+                                                    const iconClass = "w-3.5 h-3.5 text-muted-foreground/70";
+                                                    switch (type) {
+                                                        case 'number': return <Hash className={iconClass} />;
+                                                        case 'boolean': return <ToggleLeft className={iconClass} />;
+                                                        case 'object': return <Package className={iconClass} />;
+                                                        case 'array': return <Brackets className={iconClass} />;
+                                                        default: return <TypeIcon className={iconClass} />;
+                                                    }
+                                                })()}
+                                                <span className="truncate text-foreground font-medium">{col}</span>
+                                            </div>
+                                            {sortKey ? (
+                                                <span className="flex items-center gap-0.5 shrink-0">
+                                                    {sortKey.direction === "asc" ? (
+                                                        <ArrowUp className="w-3 h-3 text-green-500" />
+                                                    ) : (
+                                                        <ArrowDown className="w-3 h-3 text-green-500" />
+                                                    )}
+                                                    {sortConfig!.keys.length > 1 && (
+                                                        <span className="text-[10px] font-mono text-green-500">{sortIdx + 1}</span>
+                                                    )}
+                                                </span>
                                             ) : (
-                                                <ArrowDown className="w-3 h-3 text-green-500 shrink-0" />
-                                            )
-                                        ) : (
-                                            <ArrowUpDown className="w-3 h-3 opacity-30 group-hover:opacity-50 shrink-0" />
-                                        )}
-                                    </div>
-                                </TableHead>
+                                                <ArrowUpDown className="w-3 h-3 opacity-30 group-hover:opacity-50 shrink-0" />
+                                            )}
+                                            {showMenu && (
+                                                <div className="ml-auto">
+                                                    <ColumnHeaderMenu
+                                                        column={col}
+                                                        columns={columns}
+                                                        columnType={schema?.[col]}
+                                                        onRename={onRenameColumn}
+                                                        onDelete={onDeleteColumn}
+                                                        onChangeType={onChangeColumnType}
+                                                        onInsertColumn={onAddColumn}
+                                                        onOpenReorder={onOpenReorder}
+                                                        onHide={onHideColumn}
+                                                        onOpenTypeReport={onOpenTypeReport ? () => onOpenTypeReport(col) : undefined}
+                                                        onSelectColumn={() => {
+                                                            handleSelectColumns(colIdx, colIdx);
+                                                            // After the menu has closed
+                                                            setTimeout(() => tableContainerRef.current?.focus(), 0);
+                                                        }}
+                                                        onOpen={() => setFocusedCell(null)}
+                                                    />
+                                                </div>
+                                            )}
+                                        </div>
+                                    </TableHead>
+                                );
+                            })}
+                            <TableHead className="w-[50px] p-0">
+                                {!readOnly && onAddColumn && (
+                                    <Popover open={isAddColumnOpen} onOpenChange={(open) => {
+                                        if (open) setFocusedCell(null);
+                                        onAddColumnOpenChange?.(open);
+                                    }}>
+                                        <PopoverTrigger asChild>
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                className="h-full w-full rounded-none hover:bg-muted"
+                                                title="Add Column"
+                                            >
+                                                <Plus className="h-4 w-4 text-muted-foreground" />
+                                            </Button>
+                                        </PopoverTrigger>
+                                        <PopoverContent align="end" className="w-80">
+                                            <AddColumnForm
+                                                onAdd={(name, type, defaultValue) => onAddColumn(name, type, defaultValue)}
+                                                onCancel={() => onAddColumnOpenChange?.(false)}
+                                                existingColumns={columns}
+                                            />
+                                        </PopoverContent>
+                                    </Popover>
+                                )}
+                            </TableHead>
+                        </TableRow>
+                        {showFilters && (
+                            <ColumnFilterRow
+                                columns={columns}
+                                columnTypes={columnTypes}
+                                gridTemplate={gridTemplate}
+                                filters={filters}
+                                onChange={handleFilterChange}
+                                onFocus={() => setFocusedCell(null)}
+                            />
+                        )}
+                    </TableHeader>
+
+                    <TableBody ref={tableBodyRef} className="flex-1 overflow-y-auto overflow-x-hidden w-full block min-h-0">
+                        {rowWindow.before > 0 && <tr aria-hidden className="block" style={{ height: rowWindow.before }} />}
+                        {viewOrder.slice(rowWindow.start, rowWindow.end).map((dataIdx, i) => {
+                            const rowIdx = rowWindow.start + i;
+                            const isRowSelected = !!shownRange && rowIdx >= shownRange.top && rowIdx <= shownRange.bottom;
+                            return (
+                                <DataTableRow
+                                    key={dataIdx}
+                                    row={data[dataIdx]}
+                                    rowIdx={rowIdx}
+                                    columns={renderedColumns}
+                                    gridTemplate={rowGridTemplate}
+                                    horizontalPad={horizontalPad}
+                                    isEditingCell={editingCell?.row === rowIdx ? editingCell : null}
+                                    focusedCol={focusedCell?.row === rowIdx && focusedCell?.col !== undefined && focusedCell.col < columns.length ? columns[focusedCell.col] : null}
+                                    columnOffset={isWide ? colWindow.start : 0}
+                                    selectedFrom={isRowSelected ? shownRange.left : -1}
+                                    selectedTo={isRowSelected ? shownRange.right : -1}
+                                    isSelectionTop={isRowSelected && rowIdx === shownRange.top}
+                                    isSelectionBottom={isRowSelected && rowIdx === shownRange.bottom}
+                                    isFillPreview={!!fillDrag}
+                                    fillHandleCol={handleRange && rowIdx === handleRange.bottom ? handleRange.right : -1}
+                                    isDeleteFocused={focusedCell?.row === rowIdx && focusedCell?.col === columns.length}
+                                    isLastAdded={dataIdx === lastAddedIndex}
+                                    searchMatcher={searchMatcher}
+                                    activeMatchCol={activeMatch?.row === dataIdx ? activeMatch.col : null}
+                                    cellErrors={rowErrors?.[dataIdx] ?? null}
+                                    activeErrorCol={activeError?.row === dataIdx ? activeError.col : null}
+                                    onStartEdit={handleStartEdit}
+                                    onUpdateCell={handleUpdateCell}
+                                    onCancelEdit={handleCancelEdit}
+                                    onDeleteRow={handleDeleteRow}
+                                    onFocusCell={handleFocusCell}
+                                    onFocusDelete={handleFocusDelete}
+                                    onSelectRow={handleSelectRow}
+                                    onStartFill={handleStartFill}
+                                    onHoverCell={handleHoverCell}
+                                    onOpenNested={handleOpenNested}
+                                    readOnly={readOnly}
+                                    onNavigate={handleNavigate}
+                                />
                             );
                         })}
-                        <TableHead className="w-[50px] p-0">
-                            {!readOnly && onAddColumn && (
-                                <Popover open={isAddColumnOpen} onOpenChange={(open) => {
-                                    if (open) setFocusedCell(null);
-                                    onAddColumnOpenChange?.(open);
-                                }}>
-                                    <PopoverTrigger asChild>
-                                        <Button
-                                            variant="ghost"
-                                            size="icon"
-                                            className="h-full w-full rounded-none hover:bg-muted"
-                                            title="Add Column"
-                                        >
-                                            <Plus className="h-4 w-4 text-muted-foreground" />
-                                        </Button>
-                                    </PopoverTrigger>
-                                    <PopoverContent align="end" className="w-80">
-                                        <AddColumnForm
-                                            onAdd={(name, type, defaultValue) => onAddColumn(name, type, defaultValue)}
-                                            onCancel={() => onAddColumnOpenChange?.(false)}
-                                            existingColumns={columns}
-                                        />
-                                    </PopoverContent>
-                                </Popover>
-                            )}
-                        </TableHead>
-                    </TableRow>
-                </TableHeader>
-
-                <TableBody ref={tableBodyRef} className="flex-1 overflow-y-auto w-full block min-h-0">
-                    {data.map((row, rowIdx) => (
-                        <DataTableRow
-                            key={rowIdx}
-                            row={row}
-                            rowIdx={rowIdx}
+                        {rowWindow.after > 0 && <tr aria-hidden className="block" style={{ height: rowWindow.after }} />}
+                    </TableBody>
+
+                    {!readOnly && (
+                        <QuickAddFooter
                             columns={columns}
-                            isEditingCell={editingCell?.row === rowIdx ? editingCell : null}
-                            focusedCol={focusedCell?.row === rowIdx && focusedCell?.col !== undefined && focusedCell.col < columns.length ? columns[focusedCell.col] : null}
-                            isDeleteFocused={focusedCell?.row === rowIdx && focusedCell?.col === columns.length}
-                            lastAddedIndex={lastAddedIndex}
-                            onStartEdit={(r, c) => handleStartEdit(r, c)} // Fix type mismatch manually if needed but simplified here
-                            onUpdateCell={handleUpdateCell}
-                            onCancelEdit={handleCancelEdit}
-                            onDeleteRow={onDeleteRow ?? (() => { })}
-                            onFocusCell={(r, c) => setFocusedCell({ row: r, col: columns.indexOf(c) })}
-                            onFocusDelete={(r) => setFocusedCell({ row: r, col: columns.length })}
-                            onOpenNested={(rowIdx, col, nestedData) => setNestedModal({ open: true, title: col, type: columnTypes[col], data: nestedData, rowIdx, col })}
-                            readOnly={readOnly}
-                            onNavigate={handleNavigate}
+                            onAdd={handleAddRow}
+                            firstInputRef={firstInputRef}
+                            onFocus={() => setFocusedCell(null)} // Clear table focus when footer is active
+                            onOpenNested={(col, data, onSave) => setNestedModal({
+                                open: true,
+                                title: col,
+                                type: columnTypes[col],
+                                data: data,
+                                rowIdx: -1, // New row
+                                col: col,
+                                onSave: onSave
+                            })}
+                            columnTypes={columnTypes}
+                            data={data}
+                            gridTemplate={gridTemplate}
                         />
-                    ))}
-                </TableBody>
-
-                {!readOnly && (
-                    <QuickAddFooter
-                        columns={columns}
-                        onAdd={handleAddRow}
-                        firstInputRef={firstInputRef}
-                        onFocus={() => setFocusedCell(null)} // Clear table focus when footer is active
-                        onOpenNested={(col, data, onSave) => setNestedModal({
-                            open: true,
-                            title: col,
-                            type: columnTypes[col],
-                            data: data,
-                            rowIdx: -1, // New row
-                            col: col,
-                            onSave: onSave
-                        })}
-                        columnTypes={columnTypes}
-                        data={data}
-                    />
-                )}
-            </Table>
+                    )}
+                </Table>
+            </div>
+
+            {showFilters && (
+                <div className="flex items-center gap-3 px-4 py-2 border-t text-xs text-muted-foreground shrink-0">
+                    <span>
+                        Showing <span className="font-mono text-foreground">{viewOrder.length}</span> of <span className="font-mono text-foreground">{data.length}</span> rows
+                    </span>
+                    {activeFilterCount > 1 && (
+                        <div className="flex items-center gap-1">
+                            <span>Match</span>
+                            {(["and", "or"] as const).map(mode => (
+                                <button
+                                    key={mode}
+                                    type="button"
+                                    onClick={() => setFilters(prev => ({ ...prev, mode }))}
+                                    className={`px-2 py-0.5 rounded border ${filters.mode === mode ? "border-green-500/30 bg-green-500/10 text-green-500" : "border-transparent hover:bg-muted"}`}
+                                >
+                                    {mode === "and" ? "all" : "any"}
+                                </button>
+                            ))}
+                            <span>filters</span>
+                        </div>
+                    )}
+                    {Object.keys(filters.columns).length > 0 && (
+                        <button
+                            type="button"
+                            onClick={() => setFilters(prev => ({ ...prev, columns: {} }))}
+                            className="ml-auto hover:text-foreground"
+                        >
+                            Clear filters
+                        </button>
+                    )}
+                </div>
+            )}
 
             {/* Nested Table Modal for objects/arrays */}
             {nestedModal && (
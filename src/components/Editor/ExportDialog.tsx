@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DEFAULT_CSV_EXPORT_OPTIONS, type ArrayEncoding, type CSVExportOptions } from "@/lib/csv-utils";
+
+interface ExportDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    /** Number of columns that will be exported (the visible ones). */
+    columnCount: number;
+    hiddenCount: number;
+    onExport: (options: CSVExportOptions) => void;
+}
+
+const selectClass = "h-9 text-xs font-normal";
+
+export const ExportDialog = ({ open, onOpenChange, columnCount, hiddenCount, onExport }: ExportDialogProps) => {
+    // Kept between openings, so repeated exports use the same settings
+    const [options, setOptions] = useState<CSVExportOptions>(DEFAULT_CSV_EXPORT_OPTIONS);
+
+    const update = (patch: Partial<CSVExportOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+    const handleExport = () => {
+        onExport(options);
+        onOpenChange(false);
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-md">
+                <DialogHeader>
+                    <DialogTitle>Export as CSV / TSV</DialogTitle>
+                    <DialogDescription>
+                        Nested objects become dot-notation columns (address.city).
+                        {" "}{columnCount} column{columnCount === 1 ? "" : "s"} in the current order
+                        {hiddenCount > 0 ? `, ${hiddenCount} hidden column${hiddenCount === 1 ? "" : "s"} left out.` : "."}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="grid gap-4 py-4">
+                    <div className="grid gap-2">
+                        <Label htmlFor="export-format">Format</Label>
+                        <Select value={options.delimiter} onValueChange={(val) => update({ delimiter: val as CSVExportOptions["delimiter"] })}>
+                            <SelectTrigger id="export-format" className={selectClass}>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value=",">CSV (comma)</SelectItem>
+                                <SelectItem value=";">CSV (semicolon, for European Excel)</SelectItem>
+                                <SelectItem value={"\t"}>TSV (tab)</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    <div className="grid gap-2">
+                        <Label htmlFor="export-arrays">Lists</Label>
+                        <div className="flex gap-2">
+                            <Select value={options.arrayEncoding} onValueChange={(val) => update({ arrayEncoding: val as ArrayEncoding })}>
+                                <SelectTrigger id="export-arrays" className={`${selectClass} flex-1`}>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="join">Joined into one cell</SelectItem>
+                                    <SelectItem value="json">As JSON text</SelectItem>
+                                    <SelectItem value="explode">One column per item (tags[0], tags[1]…)</SelectItem>
+                                </SelectContent>
+                            </Select>
+                            {options.arrayEncoding === "join" && (
+                                <Input
+                                    value={options.joinSeparator}
+                                    onChange={(e) => update({ joinSeparator: e.target.value })}
+                                    className="h-9 w-16 text-xs font-mono"
+                                    title="Separator"
+                                />
+                            )}
+                        </div>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                        <Checkbox
+                            id="export-bom"
+                            checked={options.bom}
+                            onCheckedChange={(checked) => update({ bom: checked === true })}
+                        />
+                        <Label htmlFor="export-bom" className="font-normal">
+                            Excel compatible (UTF-8 byte order mark)
+                        </Label>
+                    </div>
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+                    <Button onClick={handleExport} disabled={columnCount === 0}>Download</Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
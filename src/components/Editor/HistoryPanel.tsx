@@ -0,0 +1,69 @@
+import { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import type { Patch } from "@/hooks/use-undo-redo";
+import { Circle, CircleDot, X } from "lucide-react";
+
+interface HistoryPanelProps {
+    base: { label: string; timestamp: number };
+    past: Patch[];
+    future: Patch[];
+    /** Position 0 is the base state; past.length is the present. */
+    onJump: (position: number) => void;
+    onClose: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+
+export const HistoryPanel = ({ base, past, future, onJump, onClose }: HistoryPanelProps) => {
+    const currentRef = useRef<HTMLButtonElement>(null);
+    const current = past.length;
+
+    // Keep the current position in view as the history grows
+    useEffect(() => {
+        currentRef.current?.scrollIntoView({ block: "nearest" });
+    }, [current, past.length, future.length]);
+
+    const entries = [
+        { label: base.label, timestamp: base.timestamp },
+        ...past,
+        ...future,
+    ];
+
+    return (
+        <aside className="w-72 shrink-0 border-l flex flex-col min-h-0">
+            <div className="flex items-center justify-between px-4 h-10 shrink-0">
+                <span className="text-sm font-medium">History</span>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose} title="Close history">
+                    <X className="h-4 w-4" />
+                </Button>
+            </div>
+            <ol className="flex-1 overflow-y-auto px-2 pb-4">
+                {entries.map((entry, position) => {
+                    const isCurrent = position === current;
+                    const isFuture = position > current;
+                    return (
+                        <li key={`${position}-${entry.timestamp}`}>
+                            <button
+                                ref={isCurrent ? currentRef : undefined}
+                                type="button"
+                                onClick={() => onJump(position)}
+                                aria-current={isCurrent ? "step" : undefined}
+                                className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-left text-xs transition-colors hover:bg-muted/60 ${isCurrent ? "bg-muted text-foreground" : ""} ${isFuture ? "opacity-40" : ""}`}
+                                title={isFuture ? "Redo up to here" : isCurrent ? "Current state" : "Undo back to here"}
+                            >
+                                {isCurrent ? (
+                                    <CircleDot className="w-3.5 h-3.5 shrink-0 text-green-500" />
+                                ) : (
+                                    <Circle className="w-3.5 h-3.5 shrink-0 text-muted-foreground/50" />
+                                )}
+                                <span className="flex-1 truncate">{entry.label}</span>
+                                <span className="font-mono text-[10px] text-muted-foreground shrink-0">{formatTime(entry.timestamp)}</span>
+                            </button>
+                        </li>
+                    );
+                })}
+            </ol>
+        </aside>
+    );
+};
@@ -0,0 +1,124 @@
+import { useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { DocumentState, TableRow } from "@/lib/data-utils";
+import { commonColumns, mergeRows, type MergeMode } from "@/lib/merge-utils";
+import { FilePlus2, ListPlus, Replace } from "lucide-react";
+
+interface ImportModeDialogProps {
+    open: boolean;
+    /** "orders.csv" or "clipboard" */
+    source: string;
+    rows: TableRow[];
+    /** The open document the rows are merged into. */
+    document: DocumentState;
+    onImport: (mode: MergeMode, key?: string) => void;
+    /** Only offered for files. */
+    onOpenInNewTab?: () => void;
+    onCancel: () => void;
+}
+
+const MODES: { value: MergeMode; label: string; description: string; icon: typeof Replace }[] = [
+    { value: "replace", label: "Replace", description: "Open the imported rows instead of the current document.", icon: Replace },
+    { value: "append", label: "Append rows", description: "Add the imported rows after the existing ones.", icon: ListPlus },
+    { value: "upsert", label: "Update by key", description: "Update rows with the same key value, add the others.", icon: FilePlus2 },
+];
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+
+export const ImportModeDialog = ({ open, onCancel, ...props }: ImportModeDialogProps) => (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+        <DialogContent className="max-w-lg">
+            {/* Remounted per import, so each starts from "append" and its own default key */}
+            <ImportModeForm key={props.source} onCancel={onCancel} {...props} />
+        </DialogContent>
+    </Dialog>
+);
+
+const ImportModeForm = ({ source, rows, document, onImport, onOpenInNewTab, onCancel }: Omit<ImportModeDialogProps, "open">) => {
+    const keyOptions = useMemo(() => commonColumns(document, rows), [document, rows]);
+
+    const [mode, setMode] = useState<MergeMode>("append");
+    const [key, setKey] = useState<string | undefined>(() => keyOptions.includes("id") ? "id" : keyOptions[0]);
+
+    const preview = useMemo(() => mergeRows(document, rows, mode, key), [document, rows, mode, key]);
+
+    const canImport = mode !== "upsert" || !!key;
+
+    return (
+        <>
+            <DialogHeader>
+                <DialogTitle>Import {plural(rows.length, "row")} from {source}</DialogTitle>
+                <DialogDescription>
+                    This tab already has a document. Choose how to combine them. Appending and updating can be undone.
+                </DialogDescription>
+            </DialogHeader>
+
+            <div className="py-4 flex flex-col gap-2" role="radiogroup">
+                {MODES.map(option => {
+                    const isSelected = option.value === mode;
+                    const disabled = option.value === "upsert" && keyOptions.length === 0;
+                    const Icon = option.icon;
+                    return (
+                        <button
+                            key={option.value}
+                            type="button"
+                            role="radio"
+                            aria-checked={isSelected}
+                            disabled={disabled}
+                            onClick={() => setMode(option.value)}
+                            className={`flex items-start gap-3 p-3 rounded-md border text-left transition-colors disabled:opacity-40 disabled:pointer-events-none ${isSelected ? "border-green-500/60 bg-green-500/10" : "border-white/5 bg-muted/40 hover:bg-muted/60"}`}
+                        >
+                            <Icon className={`w-4 h-4 mt-0.5 shrink-0 ${isSelected ? "text-green-500" : "text-muted-foreground"}`} />
+                            <div className="min-w-0 flex-1">
+                                <div className="text-sm">{option.label}</div>
+                                <div className="text-xs text-muted-foreground">
+                                    {disabled ? "The imported rows share no column with the document." : option.description}
+                                </div>
+                            </div>
+                        </button>
+                    );
+                })}
+
+                {mode === "upsert" && (
+                    <div className="grid gap-2 pt-2">
+                        <Label htmlFor="import-key">Key column</Label>
+                        <Select value={key} onValueChange={setKey}>
+                            <SelectTrigger id="import-key" className="h-9 text-xs font-normal">
+                                <SelectValue placeholder="Choose a column" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {keyOptions.map(col => (
+                                    <SelectItem key={col} value={col}>{col}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                )}
+
+                {canImport && (
+                    <p className="text-xs text-muted-foreground pt-2">
+                        {mode === "replace"
+                            ? `${plural(document.rows.length, "row")} will be replaced by ${plural(preview.added, "row")}.`
+                            : [
+                                `${plural(preview.added, "row")} added`,
+                                mode === "upsert" && `${plural(preview.updated, "row")} updated`,
+                                mode === "upsert" && preview.unchanged > 0 && `${preview.unchanged} unchanged`,
+                                preview.newColumns.length > 0 && `new column${preview.newColumns.length === 1 ? "" : "s"}: ${preview.newColumns.join(", ")}`,
+                            ].filter(Boolean).join(" · ")}
+                    </p>
+                )}
+            </div>
+
+            <DialogFooter>
+                {onOpenInNewTab && (
+                    <Button variant="ghost" className="mr-auto" onClick={onOpenInNewTab}>Open in new tab</Button>
+                )}
+                <Button variant="outline" onClick={onCancel}>Cancel</Button>
+                <Button onClick={() => onImport(mode, mode === "upsert" ? key : undefined)} disabled={!canImport}>Import</Button>
+            </DialogFooter>
+        </>
+    );
+};
@@ -0,0 +1,103 @@
+import { useRef, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { parseJsonSchema, type JsonSchemaObject } from "@/lib/json-schema-utils";
+import { FileUp } from "lucide-react";
+
+interface JsonSchemaDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    /** The attached row schema, shown for editing. */
+    schema: JsonSchemaObject | null;
+    onAttach: (schema: JsonSchemaObject) => void;
+    onRemove: () => void;
+}
+
+export const JsonSchemaDialog = ({ open, onOpenChange, ...props }: JsonSchemaDialogProps) => (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-2xl">
+            {/* Mounted each time the dialog opens, so editing starts from the attached schema */}
+            <JsonSchemaForm onOpenChange={onOpenChange} {...props} />
+        </DialogContent>
+    </Dialog>
+);
+
+const JsonSchemaForm = ({ onOpenChange, schema, onAttach, onRemove }: Omit<JsonSchemaDialogProps, "open">) => {
+    const [text, setText] = useState(() => (schema ? JSON.stringify(schema, null, 2) : ""));
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (event) => {
+            setText(event.target?.result as string);
+            setError(null);
+        };
+        reader.readAsText(file);
+        e.target.value = ""; // Allow loading the same file again
+    };
+
+    const handleAttach = () => {
+        const result = parseJsonSchema(text);
+        if (!result.ok) {
+            setError(result.error);
+            return;
+        }
+        onAttach(result.schema);
+        onOpenChange(false);
+    };
+
+    return (
+        <>
+            <DialogHeader>
+                <DialogTitle>JSON Schema</DialogTitle>
+                <DialogDescription>
+                    Every row is validated against the schema, either for a row (an object with properties) or for the whole document (an array with items).
+                    Supported: type, enum, const, required, minimum/maximum, minLength/maxLength, minItems/maxItems, pattern, format and nested properties/items.
+                </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid gap-2 py-4">
+                <textarea
+                    value={text}
+                    onChange={(e) => {
+                        setText(e.target.value);
+                        setError(null);
+                    }}
+                    spellCheck={false}
+                    placeholder={'{\n  "type": "object",\n  "required": ["id"],\n  "properties": {\n    "id": { "type": "integer" }\n  }\n}'}
+                    className={`h-[50vh] w-full resize-none rounded-[8px] border border-input bg-transparent p-3 font-mono text-xs shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring ${error ? "ring-1 ring-destructive" : ""}`}
+                />
+                {error && <p className="text-xs text-destructive">{error}</p>}
+                <input
+                    type="file"
+                    accept=".json,application/json,application/schema+json"
+                    className="hidden"
+                    ref={fileInputRef}
+                    onChange={handleFile}
+                />
+            </div>
+
+            <DialogFooter>
+                <Button variant="ghost" className="mr-auto" onClick={() => fileInputRef.current?.click()}>
+                    <FileUp />
+                    Load file…
+                </Button>
+                {schema && (
+                    <Button
+                        variant="outline"
+                        onClick={() => {
+                            onRemove();
+                            onOpenChange(false);
+                        }}
+                    >
+                        Remove schema
+                    </Button>
+                )}
+                <Button onClick={handleAttach} disabled={!text.trim()}>{schema ? "Update" : "Attach"}</Button>
+            </DialogFooter>
+        </>
+    );
+};
@@ -6,8 +6,12 @@ import {
     DialogTitle,
 } from "@/components/ui/dialog";
 import { DataTable } from "./DataTable";
-import { inferColumns, inferSchema } from "@/lib/data-utils";
+import { inferColumns, inferSchema, applyCellUpdates, type ColumnType, type CellUpdate, type TableRow } from "@/lib/data-utils";
 import { ReorderColumnsDialog } from "./ReorderColumnsDialog";
+import { nextSortConfig, type SortConfig } from "@/lib/sort-utils";
+import { ConvertColumnDialog } from "./ConvertColumnDialog";
+import { convertColumn, describeConversion, type ConvertTarget, type FailBehaviour } from "@/lib/convert-utils";
+import { toast } from "sonner";
 
 interface NestedTableModalProps {
     open: boolean;
@@ -49,6 +53,8 @@ export const NestedTableModal: React.FC<NestedTableModalProps> = ({
     const [columnOrder, setColumnOrder] = useState<string[]>([]);
     const [isReorderOpen, setIsReorderOpen] = useState(false);
     const [isAddColumnOpen, setIsAddColumnOpen] = useState(false);
+    const [sortConfig, setSortConfig] = useState<SortConfig | null>(null);
+    const [convertRequest, setConvertRequest] = useState<{ col: string; target: ConvertTarget } | null>(null);
 
     const isArray = Array.isArray(localData);
 
@@ -79,6 +85,7 @@ export const NestedTableModal: React.FC<NestedTableModalProps> = ({
             const oldKey = entries[rowIdx][0];
 
             if (col === "key") {
+                if (typeof value !== "string") return; // Clearing a key isn't a rename
                 // Renaming the key
                 // 1. Create new object to maintain order (roughly)
                 const newData: Record<string, any> = {};
@@ -92,20 +99,28 @@ export const NestedTableModal: React.FC<NestedTableModalProps> = ({
                 setLocalData(newData);
                 onUpdateData?.(newData);
             } else {
-                // Updating the value
-                const newData = { ...localData, [oldKey]: value };
+                // Updating the value; an entry can't be missing its value (delete the row to remove the key)
+                const newData = { ...localData, [oldKey]: value === undefined ? null : value };
                 setLocalData(newData);
                 onUpdateData?.(newData);
             }
         } else {
-            // For arrays
-            const newData = [...(localData as Array<Record<string, any>>)];
-            newData[rowIdx] = { ...newData[rowIdx], [col]: value };
+            // For arrays (undefined removes the key from the item)
+            const newData = applyCellUpdates(localData as TableRow[], [{ row: rowIdx, col, value }]);
+            if (newData === localData) return;
             setLocalData(newData);
             onUpdateData?.(newData);
         }
     }, [localData, isArray, onUpdateData]);
 
+    // Multi-cell edits; only for arrays of objects (the key/value view edits one entry at a time)
+    const handleUpdateCells = useCallback((updates: CellUpdate[]) => {
+        const newData = applyCellUpdates(localData as TableRow[], updates);
+        if (newData === localData) return;
+        setLocalData(newData);
+        onUpdateData?.(newData);
+    }, [localData, onUpdateData]);
+
     // Handle nested modal updates
     const handleNestedUpdate = useCallback((nestedData: any) => {
         if (!nestedModal) return;
@@ -167,7 +182,7 @@ export const NestedTableModal: React.FC<NestedTableModalProps> = ({
         }
     }, [localData, isArray, onUpdateData]);
 
-    const handleAddColumn = useCallback((name: string, type: string, defaultValue: any = null) => {
+    const handleAddColumn = useCallback((name: string, type: string, defaultValue: any = null, index?: number) => {
         if (isArray) {
             // Determine default value based on type if not provided
             if (defaultValue === undefined || defaultValue === null) {
@@ -183,6 +198,14 @@ export const NestedTableModal: React.FC<NestedTableModalProps> = ({
                 ...item,
                 [name]: defaultValue
             }));
+            // Inserted left/right of an existing column: claim the position before the sync effect appends it
+            if (index !== undefined) {
+                setColumnOrder(prev => {
+                    const next = prev.filter(c => c !== name);
+                    next.splice(index, 0, name);
+                    return next;
+                });
+            }
             setLocalData(newData);
             onUpdateData?.(newData);
         }
@@ -202,6 +225,7 @@ export const NestedTableModal: React.FC<NestedTableModalProps> = ({
                 });
                 return newItem;
             });
+            setColumnOrder(prev => prev.map(c => c === oldName ? newName : c));
             setLocalData(newData);
             onUpdateData?.(newData);
         }
@@ -219,6 +243,23 @@ export const NestedTableModal: React.FC<NestedTableModalProps> = ({
         }
     }, [localData, isArray, onUpdateData]);
 
+    // Like the main table, picking a type opens the conversion preview
+    const handleChangeColumnType = useCallback((colName: string, type: ColumnType) => {
+        if (isArray) setConvertRequest({ col: colName, target: type === "auto" ? "text" : type });
+    }, [isArray]);
+
+    // Nested schemas are inferred from the values, so converting the values is what changes the type
+    const handleConvertColumn = useCallback((colName: string, target: ConvertTarget, onFail: FailBehaviour) => {
+        if (!isArray) return;
+        const result = convertColumn(localData as TableRow[], colName, target, onFail);
+        setLocalData(result.rows);
+        onUpdateData?.(result.rows);
+
+        const message = describeConversion(colName, target, result.failures.length, onFail);
+        if (result.failures.length > 0) toast.warning(message);
+        else toast.success(message);
+    }, [localData, isArray, onUpdateData]);
+
     // Prepare data for DataTable
     const tableData = isArray
         ? (localData as Array<Record<string, any>>)
@@ -257,12 +298,16 @@ export const NestedTableModal: React.FC<NestedTableModalProps> = ({
                             columns={tableColumns}
                             schema={tableSchema}
                             onUpdateCell={handleUpdateCell}
+                            onUpdateCells={isArray ? handleUpdateCells : undefined}
                             onDeleteRow={handleDeleteRow}
                             onAdd={handleAddRow}
                             onAddColumn={handleAddColumn}
                             onRenameColumn={handleRenameColumn}
                             onDeleteColumn={handleDeleteColumn}
+                            onChangeColumnType={handleChangeColumnType}
                             onEditingChange={setIsEditing}
+                            sortConfig={sortConfig}
+                            onSort={isArray ? (col, additive) => setSortConfig(prev => nextSortConfig(prev, col, additive)) : undefined}
                             lockColumns={!isArray}
                             onOpenReorder={isArray ? () => setIsReorderOpen(true) : undefined}
                             isAddColumnOpen={isAddColumnOpen}
@@ -279,6 +324,17 @@ export const NestedTableModal: React.FC<NestedTableModalProps> = ({
                             onReorder={setColumnOrder}
                         />
                     )}
+
+                    {isArray && (
+                        <ConvertColumnDialog
+                            open={convertRequest !== null}
+                            onOpenChange={(open) => !open && setConvertRequest(null)}
+                            column={convertRequest?.col ?? null}
+                            initialTarget={convertRequest?.target ?? "text"}
+                            rows={localData as TableRow[]}
+                            onConvert={(target, onFail) => convertRequest && handleConvertColumn(convertRequest.col, target, onFail)}
+                        />
+                    )}
                 </DialogContent>
             </Dialog>
 
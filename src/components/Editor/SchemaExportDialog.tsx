@@ -0,0 +1,95 @@
+import { useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import type { TableRow } from "@/lib/data-utils";
+import { downloadFile, withExtension } from "@/lib/file-utils";
+import { generateJsonSchema, generateTypeScript, typeNameForFile } from "@/lib/schema-export-utils";
+import { Check, Copy, Download } from "lucide-react";
+
+interface SchemaExportDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    rows: TableRow[];
+    /** All columns, in the document's order. */
+    columns: string[];
+    /** Names the download and the row interface. */
+    fileName: string | null;
+}
+
+type SchemaFormat = "json-schema" | "typescript";
+
+const FORMATS: { value: SchemaFormat; label: string }[] = [
+    { value: "json-schema", label: "JSON Schema" },
+    { value: "typescript", label: "TypeScript" },
+];
+
+export const SchemaExportDialog = ({ open, onOpenChange, rows, columns, fileName }: SchemaExportDialogProps) => {
+    const [format, setFormat] = useState<SchemaFormat>("json-schema");
+    const [copied, setCopied] = useState(false);
+
+    // Only generated while the dialog is open: it walks every value in the document
+    const output = useMemo(() => {
+        if (!open) return "";
+        return format === "json-schema"
+            ? generateJsonSchema(rows, columns, fileName ?? undefined)
+            : generateTypeScript(rows, columns, typeNameForFile(fileName));
+    }, [open, format, rows, columns, fileName]);
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(output);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 1500);
+        } catch (e) {
+            console.error("Failed to copy schema", e);
+        }
+    };
+
+    const handleDownload = () => {
+        const name = fileName ?? "data";
+        if (format === "json-schema") downloadFile(output, withExtension(name, "schema.json"), "application/schema+json");
+        else downloadFile(output, withExtension(name, "d.ts"), "text/plain");
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                    <DialogTitle>Export schema</DialogTitle>
+                    <DialogDescription>
+                        Generated from every row, including nested objects and lists. Keys missing from some rows are optional; columns with mixed types become unions.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="grid gap-2 py-4">
+                    <div className="flex gap-1" role="radiogroup">
+                        {FORMATS.map(option => (
+                            <button
+                                key={option.value}
+                                type="button"
+                                role="radio"
+                                aria-checked={option.value === format}
+                                onClick={() => setFormat(option.value)}
+                                className={`px-3 py-1.5 rounded-md border text-xs transition-colors ${option.value === format ? "border-green-500/60 bg-green-500/10 text-green-500" : "border-white/5 bg-muted/40 text-muted-foreground hover:bg-muted/60"}`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                    <pre className="h-[50vh] overflow-auto rounded-[8px] border border-input p-3 font-mono text-xs whitespace-pre">{output}</pre>
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={handleCopy}>
+                        {copied ? <Check /> : <Copy />}
+                        {copied ? "Copied" : "Copy"}
+                    </Button>
+                    <Button onClick={handleDownload}>
+                        <Download />
+                        Download
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
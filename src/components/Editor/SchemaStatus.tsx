@@ -0,0 +1,48 @@
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronUp, CircleAlert, CircleCheck } from "lucide-react";
+
+interface SchemaStatusProps {
+    errorCount: number;
+    /** Errors in rows hidden by filters: counted, but not stepped through */
+    hiddenCount?: number;
+    /** Position of the visited error in the list, or -1 */
+    activeIndex: number;
+    /** Required columns the document doesn't have at all (their cells can't be marked) */
+    missingColumns: string[];
+    onNext: () => void;
+    onPrev: () => void;
+}
+
+/**
+ * Header badge for the attached JSON Schema: the number of invalid cells, with next/previous error navigation.
+ */
+export const SchemaStatus = ({ errorCount, hiddenCount = 0, activeIndex, missingColumns, onNext, onPrev }: SchemaStatusProps) => {
+    const hidden = hiddenCount > 0 ? `${hiddenCount} more in rows hidden by filters` : undefined;
+    const missing = missingColumns.length > 0 ? `Missing required column${missingColumns.length === 1 ? "" : "s"}: ${missingColumns.join(", ")}` : undefined;
+
+    if (errorCount === 0 && !missing && !hidden) {
+        return (
+            <span className="flex items-center gap-1.5 text-[11px] text-green-500" title="All rows match the JSON Schema">
+                <CircleCheck className="w-3.5 h-3.5" />
+                Valid
+            </span>
+        );
+    }
+
+    return (
+        <div className="flex items-center gap-0.5 rounded-md bg-red-500/10 pl-2 text-[11px] text-red-400" title={missing ?? hidden}>
+            <button type="button" className="flex items-center gap-1.5 font-mono whitespace-nowrap" onClick={onNext} title={missing ?? hidden ?? "Go to the next error"}>
+                <CircleAlert className="w-3.5 h-3.5" />
+                {activeIndex >= 0 ? `${activeIndex + 1} of ${errorCount}` : `${errorCount} error${errorCount === 1 ? "" : "s"}`}
+                {hidden && ` · ${hiddenCount} hidden`}
+                {missing && errorCount === 0 && " · missing columns"}
+            </button>
+            <Button variant="ghost" size="icon" className="h-6 w-6 text-red-400 hover:text-red-300" onClick={onPrev} disabled={errorCount === 0} title="Previous error">
+                <ChevronUp className="h-3.5 w-3.5" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-6 w-6 text-red-400 hover:text-red-300" onClick={onNext} disabled={errorCount === 0} title="Next error">
+                <ChevronDown className="h-3.5 w-3.5" />
+            </Button>
+        </div>
+    );
+};
@@ -0,0 +1,145 @@
+import { useEffect, useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import type { SearchOptions } from "@/lib/search-utils";
+import { ChevronDown, ChevronUp, ChevronRight, CaseSensitive, Regex, X } from "lucide-react";
+
+interface SearchPanelProps {
+    options: SearchOptions;
+    onOptionsChange: (options: SearchOptions) => void;
+    matchCount: number;
+    /** Matches in rows hidden by filters: counted, but not stepped through or replaced */
+    hiddenCount?: number;
+    activeIndex: number;
+    isInvalid: boolean;
+    onNext: () => void;
+    onPrev: () => void;
+    onReplace: (replacement: string) => void;
+    onReplaceAll: (replacement: string) => void;
+    onClose: () => void;
+}
+
+export const SearchPanel = ({
+    options,
+    onOptionsChange,
+    matchCount,
+    hiddenCount = 0,
+    activeIndex,
+    isInvalid,
+    onNext,
+    onPrev,
+    onReplace,
+    onReplaceAll,
+    onClose,
+}: SearchPanelProps) => {
+    const [showReplace, setShowReplace] = useState(false);
+    const [replacement, setReplacement] = useState("");
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    // Auto-focus (and select, for a quick new search) when mounted
+    useEffect(() => {
+        setTimeout(() => {
+            inputRef.current?.focus();
+            inputRef.current?.select();
+        }, 50);
+    }, []);
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === "Escape") {
+            e.preventDefault();
+            onClose();
+        } else if (e.key === "Enter" && e.currentTarget === inputRef.current) {
+            e.preventDefault();
+            if (e.shiftKey) onPrev();
+            else onNext();
+        }
+    };
+
+    const toggleClass = (active: boolean) =>
+        `h-7 w-7 ${active ? "bg-green-500/10 text-green-500 hover:bg-green-500/20 hover:text-green-500" : "text-muted-foreground"}`;
+
+    return (
+        <div className="absolute right-6 top-2 z-40 w-[26rem] rounded-lg border bg-popover p-2 shadow-lg flex gap-1">
+            <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-6 shrink-0 text-muted-foreground"
+                onClick={() => setShowReplace(open => !open)}
+                title={showReplace ? "Hide replace" : "Show replace"}
+            >
+                <ChevronRight className={`h-3.5 w-3.5 transition-transform ${showReplace ? "rotate-90" : ""}`} />
+            </Button>
+            <div className="flex-1 flex flex-col gap-1 min-w-0">
+                <div className="flex items-center gap-1">
+                    <Input
+                        ref={inputRef}
+                        value={options.query}
+                        onChange={(e) => onOptionsChange({ ...options, query: e.target.value })}
+                        onKeyDown={handleKeyDown}
+                        placeholder="Find in all cells"
+                        className={`h-7 px-2 text-xs flex-1 min-w-0 ${options.regex ? "font-mono" : ""} ${isInvalid ? "ring-1 ring-destructive" : ""}`}
+                    />
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        className={toggleClass(options.caseSensitive)}
+                        onClick={() => onOptionsChange({ ...options, caseSensitive: !options.caseSensitive })}
+                        title="Match case"
+                    >
+                        <CaseSensitive className="h-4 w-4" />
+                    </Button>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        className={toggleClass(options.regex)}
+                        onClick={() => onOptionsChange({ ...options, regex: !options.regex })}
+                        title="Use regular expression"
+                    >
+                        <Regex className="h-4 w-4" />
+                    </Button>
+                    <span
+                        className="w-16 text-center text-[11px] font-mono text-muted-foreground whitespace-nowrap"
+                        title={hiddenCount > 0 ? `${hiddenCount} more in rows hidden by filters` : undefined}
+                    >
+                        {matchCount === 0 ? (options.query ? (hiddenCount > 0 ? `${hiddenCount} hidden` : "No results") : "") : `${activeIndex + 1} of ${matchCount}`}
+                        {matchCount > 0 && hiddenCount > 0 && "+"}
+                    </span>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onPrev} disabled={matchCount === 0} title="Previous match (⇧⏎)">
+                        <ChevronUp className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onNext} disabled={matchCount === 0} title="Next match (⏎)">
+                        <ChevronDown className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose} title="Close (Esc)">
+                        <X className="h-4 w-4" />
+                    </Button>
+                </div>
+                {showReplace && (
+                    <div className="flex items-center gap-1">
+                        <Input
+                            value={replacement}
+                            onChange={(e) => setReplacement(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === "Enter") {
+                                    e.preventDefault();
+                                    if (e.metaKey || e.ctrlKey) onReplaceAll(replacement);
+                                    else onReplace(replacement);
+                                } else {
+                                    handleKeyDown(e);
+                                }
+                            }}
+                            placeholder={options.regex ? "Replace ($1 for groups)" : "Replace"}
+                            className="h-7 px-2 text-xs flex-1 min-w-0"
+                        />
+                        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => onReplace(replacement)} disabled={matchCount === 0}>
+                            Replace
+                        </Button>
+                        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => onReplaceAll(replacement)} disabled={matchCount === 0} title="Replace all (⌘⏎)">
+                            All
+                        </Button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
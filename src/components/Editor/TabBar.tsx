@@ -0,0 +1,58 @@
+import { Button } from "@/components/ui/button";
+import { FileJson, Plus, X } from "lucide-react";
+
+export interface DocumentTab {
+    id: string;
+    /** File name, "Untitled", or null while the tab is empty. */
+    title: string | null;
+}
+
+interface TabBarProps {
+    tabs: DocumentTab[];
+    activeId: string;
+    onSelect: (id: string) => void;
+    onClose: (id: string) => void;
+    onNew: () => void;
+}
+
+export const TabBar = ({ tabs, activeId, onSelect, onClose, onNew }: TabBarProps) => {
+    return (
+        <nav className="flex items-end gap-1 px-4 pt-2 border-b bg-background/80 backdrop-blur-sm shrink-0 overflow-x-auto" role="tablist">
+            {tabs.map(tab => {
+                const isActive = tab.id === activeId;
+                return (
+                    <div
+                        key={tab.id}
+                        role="tab"
+                        aria-selected={isActive}
+                        onClick={() => onSelect(tab.id)}
+                        onAuxClick={e => {
+                            // Middle click closes, like browser tabs
+                            if (e.button === 1) onClose(tab.id);
+                        }}
+                        className={`group flex items-center gap-2 h-9 pl-3 pr-1.5 rounded-t-md border border-b-0 text-xs cursor-pointer select-none max-w-56 transition-colors ${isActive ? "bg-background text-foreground -mb-px" : "bg-muted/40 text-muted-foreground border-transparent hover:bg-muted/70"}`}
+                        title={tab.title ?? "New tab"}
+                    >
+                        <FileJson className="w-3.5 h-3.5 shrink-0" />
+                        <span className="truncate">{tab.title ?? "New tab"}</span>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className={`h-5 w-5 shrink-0 ${isActive ? "" : "opacity-0 group-hover:opacity-100"}`}
+                            onClick={e => {
+                                e.stopPropagation();
+                                onClose(tab.id);
+                            }}
+                            title="Close tab"
+                        >
+                            <X className="h-3 w-3" />
+                        </Button>
+                    </div>
+                );
+            })}
+            <Button variant="ghost" size="icon" className="h-8 w-8 mb-0.5 shrink-0" onClick={onNew} title="New tab">
+                <Plus className="h-4 w-4" />
+            </Button>
+        </nav>
+    );
+};
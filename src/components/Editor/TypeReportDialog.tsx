@@ -0,0 +1,117 @@
+import { useMemo } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { coerceValue, type ColumnType, type TableRow } from "@/lib/data-utils";
+import { columnTypeForKind, columnTypeReport, kindOf, KIND_LABELS, VALUE_KINDS } from "@/lib/type-report-utils";
+import { Crosshair, Wand2 } from "lucide-react";
+
+interface TypeReportDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    column: string | null;
+    rows: TableRow[];
+    /** Converts the values of these rows (indices into rows) to the type, as one undo step. */
+    onCoerce: (rowIndices: number[], type: ColumnType) => void;
+    /** Closes the report and focuses the cell of this row. */
+    onRevealRow: (row: number) => void;
+}
+
+// Long lists would make the dialog slow to open; the counts still cover every row
+const MAX_LISTED_OUTLIERS = 200;
+
+const preview = (value: unknown): string => {
+    const text = JSON.stringify(value) ?? String(value);
+    return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+};
+
+export const TypeReportDialog = ({ open, onOpenChange, column, rows, onCoerce, onRevealRow }: TypeReportDialogProps) => {
+    const report = useMemo(() => (open && column !== null ? columnTypeReport(rows, column) : null), [open, column, rows]);
+    const targetType = columnTypeForKind(report?.dominant ?? null);
+
+    // Each outlier with what it would become in the dominant type (ok: false when it can't be converted)
+    const outliers = useMemo(() => {
+        if (!report || column === null || !targetType) return [];
+        return report.outliers.map(row => ({ row, value: rows[row][column], result: coerceValue(rows[row][column], targetType) }));
+    }, [report, column, rows, targetType]);
+    const convertible = outliers.filter(o => o.result.ok).map(o => o.row);
+
+    const total = rows.length;
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                    <DialogTitle>Types in "{column}"</DialogTitle>
+                    <DialogDescription>
+                        {!report?.dominant
+                            ? "This column has no values."
+                            : report.isMixed
+                                ? `Mostly ${KIND_LABELS[report.dominant]}: ${report.outliers.length} value${report.outliers.length === 1 ? " is" : "s are"} of another type.`
+                                : `Every value is ${KIND_LABELS[report.dominant]}.`}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {report && (
+                    <div className="grid gap-4 py-4">
+                        <div className="grid gap-1.5">
+                            {VALUE_KINDS.filter(kind => report.counts[kind] > 0).map(kind => (
+                                <div key={kind} className="flex items-center gap-3 text-xs">
+                                    <span className="w-16 text-muted-foreground">{KIND_LABELS[kind]}</span>
+                                    <div className="flex-1 h-1.5 rounded-full bg-muted/40 overflow-hidden">
+                                        <div
+                                            className={`h-full rounded-full ${kind === report.dominant ? "bg-green-500" : kind === "null" || kind === "missing" ? "bg-muted-foreground/40" : "bg-amber-400"}`}
+                                            style={{ width: `${(report.counts[kind] / total) * 100}%` }}
+                                        />
+                                    </div>
+                                    <span className="w-12 text-right font-mono">{report.counts[kind]}</span>
+                                </div>
+                            ))}
+                        </div>
+
+                        {outliers.length > 0 && (
+                            <div className="max-h-[40vh] overflow-y-auto rounded-md border border-white/5">
+                                {outliers.slice(0, MAX_LISTED_OUTLIERS).map(({ row, value, result }) => (
+                                    <div key={row} className="flex items-center gap-3 px-3 py-1.5 border-b border-white/5 last:border-0 text-xs">
+                                        <span className="w-14 font-mono text-muted-foreground">Row {row + 1}</span>
+                                        <span className="flex-1 min-w-0 truncate font-mono" title={JSON.stringify(value)}>{preview(value)}</span>
+                                        <span className="w-14 text-amber-400">{KIND_LABELS[kindOf(value)]}</span>
+                                        <span className="w-28 truncate font-mono text-muted-foreground">
+                                            {result.ok ? `→ ${preview(result.value)}` : "can't convert"}
+                                        </span>
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            className="h-6 w-6"
+                                            onClick={() => onCoerce([row], targetType!)}
+                                            disabled={!result.ok}
+                                            title={`Convert to ${targetType}`}
+                                        >
+                                            <Wand2 className="h-3.5 w-3.5" />
+                                        </Button>
+                                        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onRevealRow(row)} title="Go to row">
+                                            <Crosshair className="h-3.5 w-3.5" />
+                                        </Button>
+                                    </div>
+                                ))}
+                                {outliers.length > MAX_LISTED_OUTLIERS && (
+                                    <div className="px-3 py-1.5 text-xs text-muted-foreground">
+                                        And {outliers.length - MAX_LISTED_OUTLIERS} more.
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+                    {outliers.length > 0 && (
+                        <Button onClick={() => onCoerce(convertible, targetType!)} disabled={convertible.length === 0}>
+                            Convert {convertible.length} to {targetType}
+                        </Button>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -1,7 +1,10 @@
 import { useEffect } from "react";
 
 interface UseKeyboardShortcutsProps {
+    /** Listen only while true (e.g. only in the active tab). Defaults to true. */
+    enabled?: boolean;
     onSave?: () => void;
+    onSaveAs?: () => void;
     onOpen?: () => void;
     onClear?: () => void;
     onUndo?: () => void;
@@ -9,10 +12,15 @@ interface UseKeyboardShortcutsProps {
     onCopy?: () => void;
     onAddColumn?: () => void;
     onReorderColumns?: () => void;
+    onToggleFilters?: () => void;
+    onFind?: () => void;
+    onToggleHistory?: () => void;
 }
 
 export function useKeyboardShortcuts({
+    enabled = true,
     onSave,
+    onSaveAs,
     onOpen,
     onClear,
     onUndo,
@@ -20,9 +28,16 @@ export function useKeyboardShortcuts({
     onCopy,
     onAddColumn,
     onReorderColumns,
+    onToggleFilters,
+    onFind,
+    onToggleHistory,
 }: UseKeyboardShortcutsProps) {
     useEffect(() => {
+        if (!enabled) return;
         const handleKeyDown = (e: KeyboardEvent) => {
+            // Already handled by a component (e.g. the table's own Cmd+C / Cmd+Backspace)
+            if (e.defaultPrevented) return;
+
             // Check for Cmd (Mac) or Ctrl (Windows/Linux)
             const isModifier = e.metaKey || e.ctrlKey;
             const isShift = e.shiftKey;
@@ -30,7 +45,13 @@ export function useKeyboardShortcuts({
             if (isModifier) {
                 switch (e.key.toLowerCase()) {
                     case "s":
-                        if (onSave) {
+                        // Cmd + Shift + S = Save As
+                        if (isShift) {
+                            if (onSaveAs) {
+                                e.preventDefault();
+                                onSaveAs();
+                            }
+                        } else if (onSave) {
                             e.preventDefault();
                             onSave();
                         }
@@ -81,6 +102,27 @@ export function useKeyboardShortcuts({
                             }
                         }
                         break;
+                    case "f":
+                        // Shift + Cmd + F = Toggle filter row, Cmd + F = Find & replace
+                        if (isShift) {
+                            if (onToggleFilters) {
+                                e.preventDefault();
+                                onToggleFilters();
+                            }
+                        } else {
+                            if (onFind) {
+                                e.preventDefault();
+                                onFind();
+                            }
+                        }
+                        break;
+                    case "h":
+                        // Shift + Cmd + H = Toggle history panel
+                        if (isShift && onToggleHistory) {
+                            e.preventDefault();
+                            onToggleHistory();
+                        }
+                        break;
                     case "a":
                         // Shift + Cmd + A = Add Column
                         if (isShift) {
@@ -96,5 +138,5 @@ export function useKeyboardShortcuts({
 
         window.addEventListener("keydown", handleKeyDown);
         return () => window.removeEventListener("keydown", handleKeyDown);
-    }, [onSave, onOpen, onClear, onUndo, onRedo, onCopy]);
+    }, [enabled, onSave, onSaveAs, onOpen, onClear, onUndo, onRedo, onCopy, onAddColumn, onReorderColumns, onToggleFilters, onFind, onToggleHistory]);
 }
@@ -1,67 +1,260 @@
-import { useReducer, useCallback, useRef } from 'react';
+import { useReducer, useCallback } from 'react';
+
+/**
+ * How one top-level field of the state changed.
+ * Arrays (rows, columns) are diffed by reference into a single splice, so editing one cell of a
+ * 100k-row table stores one old row and one new row instead of a copy of the table.
+ */
+type FieldChange =
+    | { kind: 'splice'; start: number; removed: unknown[]; inserted: unknown[] }
+    | { kind: 'replace'; before: unknown; after: unknown };
+
+/** One undo step: the changed fields, and an estimate of the memory it keeps alive. */
+export interface Patch {
+    changes: Record<string, FieldChange>;
+    size: number;
+    /** What the step did, for the history panel and undo toasts ("Edit cell", "Delete column \"x\""). */
+    label: string;
+    timestamp: number;
+}
 
 // Actions
 type Action<T> =
-    | { type: 'SET'; payload: T | ((prev: T) => T); limit: number }
+    | { type: 'SET'; payload: T | ((prev: T) => T); label: string; limit: number; budget: number }
     | { type: 'UNDO' }
     | { type: 'REDO' }
-    | { type: 'RESET'; payload: T };
+    | { type: 'JUMP'; position: number }
+    | { type: 'RESET'; payload: T; label: string }
+    | { type: 'RESTORE'; state: UndoRedoState<T> };
 
 // State
-interface State<T> {
-    past: T[];
+export interface UndoRedoState<T> {
+    past: Patch[];
     present: T;
-    future: T[];
+    future: Patch[];
+    /** Sum of past[].size, kept under the budget. */
+    pastSize: number;
+    /** Label and time of the state history starts from (e.g. "Opened data.json"). */
+    base: { label: string; timestamp: number };
 }
 
-function undoRedoReducer<T>(state: State<T>, action: Action<T>): State<T> {
+/** Default memory budget for the undo stack (estimated bytes). */
+export const DEFAULT_HISTORY_BUDGET = 64 * 1024 * 1024;
+
+/**
+ * Drops the oldest past steps (and the furthest future steps) until the history fits the budget.
+ * Used to bound what gets persisted; the in-memory history has its own budget.
+ */
+export const trimHistory = <T>(state: UndoRedoState<T>, budget: number): UndoRedoState<T> => {
+    let size = 0;
+    let firstKept = state.past.length;
+    while (firstKept > 0 && size + state.past[firstKept - 1].size <= budget) {
+        firstKept--;
+        size += state.past[firstKept].size;
+    }
+    let futureKept = 0;
+    while (futureKept < state.future.length && size + state.future[futureKept].size <= budget) {
+        size += state.future[futureKept].size;
+        futureKept++;
+    }
+    if (firstKept === 0 && futureKept === state.future.length) return state;
+
+    const dropped = state.past[firstKept - 1];
+    return {
+        ...state,
+        past: state.past.slice(firstKept),
+        future: state.future.slice(0, futureKept),
+        pastSize: state.past.slice(firstKept).reduce((sum, p) => sum + p.size, 0),
+        base: dropped ? { label: dropped.label, timestamp: dropped.timestamp } : state.base,
+    };
+};
+
+/**
+ * Rough size of a JSON-like value in memory. Only used to enforce the history budget.
+ */
+export const estimateSize = (value: unknown): number => {
+    if (value === null || value === undefined) return 8;
+    switch (typeof value) {
+        case 'string': return 16 + value.length * 2;
+        case 'number': return 8;
+        case 'boolean': return 4;
+        case 'object': {
+            if (Array.isArray(value)) {
+                let size = 16 + value.length * 8;
+                for (const item of value) size += estimateSize(item);
+                return size;
+            }
+            let size = 32;
+            for (const key in value) {
+                size += 16 + key.length * 2 + estimateSize((value as Record<string, unknown>)[key]);
+            }
+            return size;
+        }
+        default: return 8;
+    }
+};
+
+const shallowEqual = (a: unknown, b: unknown): boolean => {
+    if (a === b) return true;
+    if (!a || !b || typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) || Array.isArray(b)) return false;
+    const aKeys = Object.keys(a);
+    const bKeys = Object.keys(b);
+    if (aKeys.length !== bKeys.length) return false;
+    return aKeys.every(k => (a as Record<string, unknown>)[k] === (b as Record<string, unknown>)[k]);
+};
+
+/**
+ * Smallest single splice turning `before` into `after`, comparing items by reference.
+ */
+const diffArray = (before: unknown[], after: unknown[]): FieldChange | null => {
+    const max = Math.min(before.length, after.length);
+    let start = 0;
+    while (start < max && before[start] === after[start]) start++;
+    if (start === before.length && start === after.length) return null;
+
+    let end = 0;
+    while (end < max - start && before[before.length - 1 - end] === after[after.length - 1 - end]) end++;
+
+    return {
+        kind: 'splice',
+        start,
+        removed: before.slice(start, before.length - end),
+        inserted: after.slice(start, after.length - end),
+    };
+};
+
+const diffState = <T>(before: T, after: T): Omit<Patch, 'label' | 'timestamp'> | null => {
+    const changes: Record<string, FieldChange> = {};
+    let size = 0;
+
+    // Non-object states (e.g. a plain array) are treated as a single field
+    const wrap = (state: T) => (state !== null && typeof state === 'object' && !Array.isArray(state)
+        ? state as Record<string, unknown>
+        : { '': state });
+    const a = wrap(before);
+    const b = wrap(after);
+
+    for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+        const prev = a[key];
+        const next = b[key];
+        if (prev === next) continue;
+
+        let change: FieldChange | null;
+        if (Array.isArray(prev) && Array.isArray(next)) {
+            change = diffArray(prev, next);
+            if (change?.kind === 'splice') size += estimateSize(change.removed) + estimateSize(change.inserted);
+        } else if (shallowEqual(prev, next)) {
+            change = null;
+        } else {
+            change = { kind: 'replace', before: prev, after: next };
+            size += estimateSize(prev) + estimateSize(next);
+        }
+        if (change) changes[key] = change;
+    }
+
+    return Object.keys(changes).length > 0 ? { changes, size } : null;
+};
+
+/**
+ * Applies a patch forwards (redo) or backwards (undo). Unchanged fields keep their references.
+ */
+const applyPatch = <T>(state: T, patch: Patch, direction: 'forward' | 'backward'): T => {
+    const isWrapped = state !== null && typeof state === 'object' && !Array.isArray(state);
+    const fields: Record<string, unknown> = isWrapped ? { ...(state as Record<string, unknown>) } : { '': state };
+
+    for (const [key, change] of Object.entries(patch.changes)) {
+        if (change.kind === 'replace') {
+            fields[key] = direction === 'forward' ? change.after : change.before;
+            continue;
+        }
+        const current = fields[key] as unknown[];
+        const [removeCount, insert] = direction === 'forward'
+            ? [change.removed.length, change.inserted]
+            : [change.inserted.length, change.removed];
+        fields[key] = [
+            ...current.slice(0, change.start),
+            ...insert,
+            ...current.slice(change.start + removeCount),
+        ];
+    }
+
+    return (isWrapped ? fields : fields['']) as T;
+};
+
+function undoRedoReducer<T>(state: UndoRedoState<T>, action: Action<T>): UndoRedoState<T> {
     switch (action.type) {
         case 'SET': {
-            const { payload, limit } = action;
+            const { payload, label, limit, budget } = action;
             const nextPresent = typeof payload === 'function'
-                ? (payload as Function)(state.present)
+                ? (payload as (prev: T) => T)(state.present)
                 : payload;
 
-            // Deep equality check to prevent duplicates
+            // Reference/shallow comparison only: no serialization on the hot path
             if (nextPresent === state.present) return state;
-            if (JSON.stringify(nextPresent) === JSON.stringify(state.present)) return state;
+            const diff = diffState(state.present, nextPresent);
+            if (!diff) return state;
+            const patch: Patch = { ...diff, label, timestamp: Date.now() };
 
-            const newPast = [...state.past, state.present];
-            if (newPast.length > limit) {
-                newPast.shift(); // Remove oldest
+            const newPast = [...state.past, patch];
+            let pastSize = state.pastSize + patch.size;
+            // Drop the oldest steps over the step limit or the memory budget (always keep the latest one)
+            let base = state.base;
+            while (newPast.length > 1 && (newPast.length > limit || pastSize > budget)) {
+                const dropped = newPast.shift()!;
+                pastSize -= dropped.size;
+                // The history now starts after the dropped step
+                base = { label: dropped.label, timestamp: dropped.timestamp };
             }
 
             return {
+                ...state,
+                base,
                 past: newPast,
                 present: nextPresent,
-                future: [] // Clear future on new change
+                future: [], // Clear future on new change
+                pastSize,
             };
         }
         case 'UNDO': {
             if (state.past.length === 0) return state;
-            const previous = state.past[state.past.length - 1];
-            const newPast = state.past.slice(0, state.past.length - 1);
+            const patch = state.past[state.past.length - 1];
             return {
-                past: newPast,
-                present: previous,
-                future: [state.present, ...state.future]
+                ...state,
+                past: state.past.slice(0, state.past.length - 1),
+                present: applyPatch(state.present, patch, 'backward'),
+                future: [patch, ...state.future],
+                pastSize: state.pastSize - patch.size,
             };
         }
         case 'REDO': {
             if (state.future.length === 0) return state;
-            const next = state.future[0];
-            const newFuture = state.future.slice(1);
+            const patch = state.future[0];
             return {
-                past: [...state.past, state.present],
-                present: next,
-                future: newFuture
+                ...state,
+                past: [...state.past, patch],
+                present: applyPatch(state.present, patch, 'forward'),
+                future: state.future.slice(1),
+                pastSize: state.pastSize + patch.size,
             };
         }
+        case 'JUMP': {
+            // Position = number of past steps: 0 is the base state, past.length the present
+            let next = state;
+            const target = Math.max(0, Math.min(action.position, state.past.length + state.future.length));
+            while (next.past.length > target) next = undoRedoReducer(next, { type: 'UNDO' });
+            while (next.past.length < target) next = undoRedoReducer(next, { type: 'REDO' });
+            return next;
+        }
+        case 'RESTORE': {
+            return action.state;
+        }
         case 'RESET': {
             return {
                 past: [],
                 present: action.payload,
-                future: []
+                future: [],
+                pastSize: 0,
+                base: { label: action.label, timestamp: Date.now() },
             };
         }
         default:
@@ -72,23 +265,24 @@ function undoRedoReducer<T>(state: State<T>, action: Action<T>): State<T> {
 /**
  * A hook for managing state with Undo/Redo capabilities.
  * Uses useReducer to ensure strict-mode compatibility and predictable state updates.
+ * History is stored as patches against the present state, bounded by a step limit and a memory budget.
+ * Updates must be immutable with structural sharing (unchanged rows keep their reference).
  */
-export function useUndoRedo<T>(initialState: T, limit: number = 100) {
-    const limitRef = useRef(limit);
-    limitRef.current = limit;
-
-    const [state, dispatch] = useReducer(undoRedoReducer<T>, {
+export function useUndoRedo<T>(initialState: T, limit: number = 100, budget: number = DEFAULT_HISTORY_BUDGET) {
+    const [state, dispatch] = useReducer(undoRedoReducer<T>, initialState, (present): UndoRedoState<T> => ({
         past: [],
-        present: initialState,
-        future: []
-    });
+        present,
+        future: [],
+        pastSize: 0,
+        base: { label: 'Opened', timestamp: Date.now() },
+    }));
 
-    const set = useCallback((newState: T | ((prev: T) => T)) => {
-        dispatch({ type: 'SET', payload: newState, limit: limitRef.current });
-    }, []);
+    const set = useCallback((newState: T | ((prev: T) => T), label: string = 'Edit') => {
+        dispatch({ type: 'SET', payload: newState, label, limit, budget });
+    }, [limit, budget]);
 
-    const reset = useCallback((newState: T) => {
-        dispatch({ type: 'RESET', payload: newState });
+    const reset = useCallback((newState: T, label: string = 'Opened') => {
+        dispatch({ type: 'RESET', payload: newState, label });
     }, []);
 
     const undo = useCallback(() => {
@@ -99,11 +293,20 @@ export function useUndoRedo<T>(initialState: T, limit: number = 100) {
         dispatch({ type: 'REDO' });
     }, []);
 
+    const jumpTo = useCallback((position: number) => {
+        dispatch({ type: 'JUMP', position });
+    }, []);
+
+    // Replace the whole history, e.g. with one persisted in a previous session
+    const restore = useCallback((saved: UndoRedoState<T>) => {
+        dispatch({ type: 'RESTORE', state: saved });
+    }, []);
+
     const canUndo = state.past.length > 0;
     const canRedo = state.future.length > 0;
 
     // Expose history for inspection (e.g. "will undo clear the workspace?")
     const history = state;
 
-    return [state.present, set, undo, redo, reset, canUndo, canRedo, history] as const;
+    return [state.present, set, undo, redo, reset, canUndo, canRedo, history, jumpTo, restore] as const;
 }
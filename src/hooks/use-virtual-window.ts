@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+
+interface UseVirtualWindowOptions {
+    /** Total number of items (rows or columns) */
+    count: number;
+    /** Fixed size of one item in px (row height or column width) */
+    itemSize: number;
+    /** Extra items rendered on both sides of the viewport to avoid flicker while scrolling */
+    overscan?: number;
+    axis?: "vertical" | "horizontal";
+    /** Re-attach listeners when the scroll element (re)mounts, e.g. after the first data load */
+    enabled?: boolean;
+}
+
+interface VirtualWindow {
+    /** First rendered index (inclusive) */
+    start: number;
+    /** Last rendered index (exclusive) */
+    end: number;
+    /** Space in px taken by the items before start */
+    before: number;
+    /** Space in px taken by the items from end onwards */
+    after: number;
+    /** Visible size of the scroll element along the axis */
+    viewportSize: number;
+}
+
+/**
+ * Computes which slice of a long, fixed-size list is visible in a scroll element.
+ * Only re-renders when the visible slice (or the viewport size) actually changes, not on every scrolled pixel.
+ */
+export function useVirtualWindow<T extends HTMLElement>(
+    ref: React.RefObject<T | null>,
+    { count, itemSize, overscan = 5, axis = "vertical", enabled = true }: UseVirtualWindowOptions
+): VirtualWindow {
+    const [viewport, setViewport] = useState({ first: 0, last: 0, size: 0 });
+
+    useEffect(() => {
+        const el = ref.current;
+        if (!el || !enabled) return;
+
+        const measure = () => {
+            const offset = axis === "vertical" ? el.scrollTop : el.scrollLeft;
+            const size = axis === "vertical" ? el.clientHeight : el.clientWidth;
+            const first = Math.floor(offset / itemSize);
+            const last = Math.ceil((offset + size) / itemSize);
+            setViewport(prev =>
+                prev.first === first && prev.last === last && prev.size === size ? prev : { first, last, size }
+            );
+        };
+
+        measure();
+        el.addEventListener("scroll", measure, { passive: true });
+        const observer = new ResizeObserver(measure);
+        observer.observe(el);
+
+        return () => {
+            el.removeEventListener("scroll", measure);
+            observer.disconnect();
+        };
+    }, [ref, axis, itemSize, enabled]);
+
+    const start = Math.max(0, Math.min(viewport.first - overscan, count));
+    const end = Math.max(start, Math.min(viewport.last + overscan, count));
+
+    return {
+        start,
+        end,
+        before: start * itemSize,
+        after: (count - end) * itemSize,
+        viewportSize: viewport.size,
+    };
+}
+
+/**
+ * Scrolls the element just enough to bring the item at index fully into view.
+ */
+export function scrollIndexIntoView(el: HTMLElement | null, index: number, itemSize: number, axis: "vertical" | "horizontal" = "vertical") {
+    if (!el || index < 0) return;
+    const itemStart = index * itemSize;
+    const itemEnd = itemStart + itemSize;
+
+    if (axis === "vertical") {
+        if (itemStart < el.scrollTop) el.scrollTop = itemStart;
+        else if (itemEnd > el.scrollTop + el.clientHeight) el.scrollTop = itemEnd - el.clientHeight;
+    } else {
+        if (itemStart < el.scrollLeft) el.scrollLeft = itemStart;
+        else if (itemEnd > el.scrollLeft + el.clientWidth) el.scrollLeft = itemEnd - el.clientWidth;
+    }
+}
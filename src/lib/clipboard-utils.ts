@@ -0,0 +1,102 @@
+import { coerceField, parseDelimited } from "@/lib/csv-utils";
+import { coerceValue, formatArrayOutput, type CellValue, type ColumnType } from "@/lib/data-utils";
+import { looksLikeJSONL } from "@/lib/jsonl-utils";
+
+/** Rows of cell values, as copied from or pasted into a block of cells. */
+export type CellGrid = unknown[][];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === "object" && !Array.isArray(value);
+
+// How a cell reads in a spreadsheet: lists like the table shows them, objects as JSON
+const formatTSVField = (value: unknown): string => {
+    if (value === null || value === undefined) return "";
+    let text: string;
+    if (Array.isArray(value) && !value.some(item => item !== null && typeof item === "object")) {
+        text = formatArrayOutput(value);
+    } else if (typeof value === "object") {
+        text = JSON.stringify(value);
+    } else {
+        text = String(value);
+    }
+    return /[\t\n\r"]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Tab-separated text, the format Excel and Google Sheets put on (and read from) the clipboard.
+ */
+export const toTSV = (grid: CellGrid): string =>
+    grid.map(row => row.map(formatTSVField).join("\t")).join("\r\n");
+
+/**
+ * The JSON flavour of a copied block: one object per row, keyed by column, so types survive a copy/paste within the editor.
+ */
+export const toClipboardJSON = (grid: CellGrid, columns: string[]): string =>
+    JSON.stringify(grid.map(row => Object.fromEntries(columns.map((col, i) => [col, row[i] ?? null]))));
+
+/**
+ * Puts several flavours on the clipboard at once (navigator.clipboard only takes plain text and HTML).
+ * Must run inside a user gesture. Returns false when the browser refused.
+ */
+export const writeClipboard = (flavours: Record<string, string>): boolean => {
+    const onCopy = (e: ClipboardEvent) => {
+        e.preventDefault();
+        Object.entries(flavours).forEach(([type, value]) => e.clipboardData?.setData(type, value));
+    };
+    document.addEventListener("copy", onCopy);
+    try {
+        return document.execCommand("copy");
+    } catch {
+        return false;
+    } finally {
+        document.removeEventListener("copy", onCopy);
+    }
+};
+
+// A JSON document or JSON Lines spanning several lines is pasted to be opened, not into cells
+const isJsonDocument = (text: string): boolean => {
+    const trimmed = text.trim();
+    if (!trimmed.includes("\n") || !/^[[{]/.test(trimmed)) return false;
+    if (looksLikeJSONL(trimmed)) return true;
+    try {
+        JSON.parse(trimmed);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Reads pasted cells: the JSON flavour when it came from this editor, otherwise TSV (a single value is a 1×1 grid).
+ * JSON values keep their types; TSV fields are raw strings until coerced with coercePastedValue.
+ */
+export const readClipboardGrid = (data: DataTransfer): CellGrid | null => {
+    const json = data.getData("application/json");
+    if (json) {
+        try {
+            const rows = JSON.parse(json);
+            if (Array.isArray(rows) && rows.length > 0 && rows.every(isPlainObject)) {
+                const columns = Object.keys(rows[0]);
+                return rows.map(row => columns.map(col => row[col] ?? null));
+            }
+        } catch {
+            // Not ours; fall back to the text
+        }
+    }
+
+    const text = data.getData("text/plain");
+    if (!text || isJsonDocument(text)) return null;
+    const grid = parseDelimited(text.replace(/\r?\n$/, ""), "\t");
+    return grid.length > 0 ? grid : null;
+};
+
+/**
+ * Converts a pasted value to the column's type. Text from a spreadsheet is typed like an imported CSV field
+ * when the column has no fixed type; values that don't fit the type are pasted as they are.
+ */
+export const coercePastedValue = (value: unknown, type: ColumnType | undefined): CellValue => {
+    if (!type || type === "auto") return typeof value === "string" ? coerceField(value) : value as CellValue;
+    const result = coerceValue(value, type);
+    if (result.ok) return result.value as CellValue;
+    return typeof value === "string" ? coerceField(value) : value as CellValue;
+};
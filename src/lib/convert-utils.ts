@@ -0,0 +1,125 @@
+import { coerceValue, type CellValue, type ColumnType, type TableRow } from "@/lib/data-utils";
+
+/** What a column can be converted to: the column types, plus dates (ISO strings in a text column). */
+export type ConvertTarget = Exclude<ColumnType, "auto"> | "date";
+
+/** What happens to a value that doesn't convert. */
+export type FailBehaviour = "keep" | "null" | "drop";
+
+export interface ColumnConversion {
+    rows: TableRow[];
+    /** Values that changed */
+    converted: number;
+    /** Values that already had the type (or were null / missing) */
+    unchanged: number;
+    /** Values that could not be converted, with their row (index into rows) */
+    failures: { row: number; value: unknown }[];
+    /** The first few changes, for the preview */
+    samples: { row: number; before: unknown; after: unknown }[];
+}
+
+/** The schema type a converted column gets. */
+export const columnTypeForTarget = (target: ConvertTarget): ColumnType => (target === "date" ? "text" : target);
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+const isValidDate = (year: number, month: number, day: number): boolean => {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+/**
+ * Normalises a date string to ISO 8601: "2024-03-05", or a full timestamp when it has a time.
+ * Year-first dates are read as year-month-day; other numeric dates as day-month-year (05-03-2024, 5.3.2024),
+ * except with slashes when the day can only be second (03/25/2024).
+ */
+export const normalizeDate = (value: string): string | null => {
+    const text = value.trim();
+
+    const ymd = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+    if (ymd) {
+        const [year, month, day] = [Number(ymd[1]), Number(ymd[2]), Number(ymd[3])];
+        return isValidDate(year, month, day) ? `${year}-${pad(month)}-${pad(day)}` : null;
+    }
+
+    const dmy = text.match(/^(\d{1,2})([-/.])(\d{1,2})\2(\d{4})$/);
+    if (dmy) {
+        let [day, month] = [Number(dmy[1]), Number(dmy[3])];
+        if (dmy[2] === "/" && month > 12 && day <= 12) [day, month] = [month, day];
+        const year = Number(dmy[4]);
+        return isValidDate(year, month, day) ? `${year}-${pad(month)}-${pad(day)}` : null;
+    }
+
+    // ISO timestamps are already normal; keep their precision and offset
+    if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(text) && !isNaN(Date.parse(text))) return text;
+
+    // Other timestamps and written-out dates ("5 March 2024", "Mar 5, 2024"); needs a year so "1" isn't a date
+    if (!/\d{4}/.test(text)) return null;
+    const time = Date.parse(text);
+    if (isNaN(time)) return null;
+    const date = new Date(time);
+    const hasTime = /\d:\d/.test(text);
+    return hasTime
+        ? date.toISOString()
+        : `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Converts one value. Like coerceValue, ok is false when the conversion would lose data.
+ */
+export const convertValue = (value: unknown, target: ConvertTarget): { ok: boolean; value: unknown } => {
+    if (target !== "date") return coerceValue(value, target);
+    if (value === null || value === undefined) return { ok: true, value };
+    if (typeof value !== "string") return { ok: false, value };
+    const date = normalizeDate(value);
+    return date === null ? { ok: false, value } : { ok: true, value: date };
+};
+
+const MAX_SAMPLES = 5;
+
+/**
+ * Converts every value of the column. Used for the preview (counts and samples) and to apply the conversion.
+ */
+export const convertColumn = (rows: TableRow[], col: string, target: ConvertTarget, onFail: FailBehaviour): ColumnConversion => {
+    let converted = 0;
+    let unchanged = 0;
+    const failures: ColumnConversion["failures"] = [];
+    const samples: ColumnConversion["samples"] = [];
+
+    const newRows = rows.map((row, idx) => {
+        if (!(col in row)) {
+            unchanged++;
+            return row;
+        }
+        const before = row[col];
+        const result = convertValue(before, target);
+        if (!result.ok) {
+            failures.push({ row: idx, value: before });
+            if (onFail === "null") return { ...row, [col]: null };
+            if (onFail === "drop") {
+                const next = { ...row };
+                delete next[col];
+                return next;
+            }
+            return row;
+        }
+        if (result.value === before || JSON.stringify(result.value) === JSON.stringify(before)) {
+            unchanged++;
+            return row;
+        }
+        converted++;
+        if (samples.length < MAX_SAMPLES) samples.push({ row: idx, before, after: result.value });
+        return { ...row, [col]: result.value as CellValue };
+    });
+
+    return { rows: newRows, converted, unchanged, failures, samples };
+};
+
+/**
+ * The message after a conversion, e.g. "price" is now number. 2 value(s) could not be converted and were kept.
+ */
+export const describeConversion = (col: string, target: ConvertTarget, failed: number, onFail: FailBehaviour): string => {
+    if (failed === 0) return `"${col}" is now ${target}.`;
+    const outcome = onFail === "keep" ? "were kept" : onFail === "null" ? "were set to null" : "were removed";
+    return `"${col}" is now ${target}. ${failed} value(s) could not be converted and ${outcome}.`;
+};
@@ -0,0 +1,299 @@
+import { flattenObject, parseNumber, unflattenObject, type CellValue, type TableRow } from "@/lib/data-utils";
+
+export type Delimiter = "," | "\t" | ";" | "|";
+
+const CANDIDATE_DELIMITERS: Delimiter[] = [",", "\t", ";", "|"];
+
+/** A raw field, and whether it was quoted: a quoted empty field is an empty string, an unquoted one no value. */
+export interface DelimitedField {
+    text: string;
+    quoted: boolean;
+}
+
+/**
+ * Splits delimited text into records of raw fields (RFC 4180).
+ * Handles quoted fields, "" escapes, delimiters and newlines inside quotes, and CRLF line endings.
+ */
+export const parseDelimitedFields = (text: string, delimiter: Delimiter): DelimitedField[][] => {
+    const records: DelimitedField[][] = [];
+    let record: DelimitedField[] = [];
+    let field = "";
+    let quoted = false;
+    let inQuotes = false;
+    let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; // Skip a BOM (Excel exports)
+
+    for (; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"') {
+                if (text[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"' && field === "") {
+            inQuotes = true;
+            quoted = true;
+        } else if (char === delimiter) {
+            record.push({ text: field, quoted });
+            field = "";
+            quoted = false;
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[i + 1] === "\n") i++;
+            record.push({ text: field, quoted });
+            records.push(record);
+            record = [];
+            field = "";
+            quoted = false;
+        } else {
+            field += char;
+        }
+    }
+
+    // Last record (no trailing newline)
+    if (field !== "" || quoted || record.length > 0) {
+        record.push({ text: field, quoted });
+        records.push(record);
+    }
+
+    // Drop blank lines
+    return records.filter(r => !(r.length === 1 && !r[0].quoted && r[0].text.trim() === ""));
+};
+
+/**
+ * Splits delimited text into records of raw string fields, see parseDelimitedFields.
+ */
+export const parseDelimited = (text: string, delimiter: Delimiter): string[][] =>
+    parseDelimitedFields(text, delimiter).map(record => record.map(field => field.text));
+
+/**
+ * Picks the delimiter that splits the first lines into the same number (> 1) of fields most consistently.
+ */
+export const detectDelimiter = (text: string): Delimiter | null => {
+    const sample = text.slice(0, 20000);
+    let best: { delimiter: Delimiter; score: number } | null = null;
+
+    for (const delimiter of CANDIDATE_DELIMITERS) {
+        const records = parseDelimited(sample, delimiter).slice(0, 20);
+        if (records.length === 0) continue;
+
+        const width = records[0].length;
+        if (width < 2) continue;
+
+        // Ignore the last sampled record: the sample may have cut it off
+        const checked = records.length > 2 ? records.slice(0, -1) : records;
+        const consistent = checked.filter(r => r.length === width).length / checked.length;
+        if (consistent < 0.8) continue;
+
+        const score = consistent * width;
+        if (!best || score > best.score) best = { delimiter, score };
+    }
+
+    return best?.delimiter ?? null;
+};
+
+const isNumeric = (str: string): boolean => {
+    const trimmed = str.trim();
+    if (parseNumber(trimmed) === null) return false;
+    // Keep identifiers like zip codes and phone numbers ("007", "+31...") as text
+    if (/^[+-]?0\d/.test(trimmed) || trimmed.startsWith("+")) return false;
+    return true;
+};
+
+/**
+ * Turns a raw field into the JSON value it most likely represents.
+ * A quoted field is never null: "" is an empty string and "null" the text, as toCSV writes them.
+ */
+export const coerceField = (raw: string, quoted = false): CellValue => {
+    const trimmed = raw.trim();
+    if (trimmed === "" || trimmed === "null") return quoted ? raw : null;
+    if (trimmed === "true" || trimmed === "false") return trimmed === "true";
+    if (isNumeric(trimmed)) return Number(trimmed);
+    if ((trimmed.startsWith("[") && trimmed.endsWith("]")) || (trimmed.startsWith("{") && trimmed.endsWith("}"))) {
+        try {
+            return JSON.parse(trimmed);
+        } catch {
+            return raw;
+        }
+    }
+    return raw;
+};
+
+/**
+ * A first record is a header when its fields are non-empty, unique and don't look like values.
+ */
+export const detectHeader = (firstRecord: string[]): boolean => {
+    const first = firstRecord.map(f => f.trim());
+    if (first.some(f => f === "")) return false;
+    if (new Set(first).size !== first.length) return false;
+    return first.every(f => typeof coerceField(f) === "string");
+};
+
+/**
+ * Cheap check used to decide whether text that isn't JSON should be read as CSV/TSV.
+ */
+export const looksLikeDelimited = (text: string): boolean => {
+    const trimmed = text.trim();
+    if (!trimmed || trimmed.startsWith("{") || trimmed.startsWith("[")) return false;
+    return detectDelimiter(trimmed) !== null;
+};
+
+/**
+ * Dot-notation headers can be nested unless one is the parent of another (a and a.b: a can't be a value and an object),
+ * or a segment is empty or an Object property (__proto__, constructor…).
+ */
+const canNestHeaders = (headers: string[]): boolean => {
+    const all = new Set(headers);
+    return headers.every(header => {
+        const segments = header.split(".");
+        if (segments.some(seg => seg === "" || seg in Object.prototype)) return false;
+        for (let i = 1; i < segments.length; i++) {
+            if (all.has(segments.slice(0, i).join("."))) return false;
+        }
+        return true;
+    });
+};
+
+/**
+ * Parses CSV/TSV text into rows.
+ * Headers in dot notation (address.city) become nested objects, unless they conflict and stay flat keys;
+ * values are coerced to numbers, booleans and null.
+ * Without a header row, columns are named column1, column2, …
+ */
+export const parseCSV = (text: string, delimiter?: Delimiter): TableRow[] | null => {
+    const detected = delimiter ?? detectDelimiter(text);
+    if (!detected) return null;
+
+    const records = parseDelimitedFields(text, detected);
+    if (records.length === 0) return null;
+
+    const hasHeader = detectHeader(records[0].map(f => f.text));
+    // Not Math.max(...): spreading every record as an argument overflows the stack on large files
+    const width = records.reduce((max, r) => Math.max(max, r.length), 0);
+    const headers = hasHeader
+        ? records[0].map(h => h.text.trim())
+        : Array.from({ length: width }, (_, i) => `column${i + 1}`);
+    const body = hasHeader ? records.slice(1) : records;
+    const nestHeaders = headers.some(h => h.includes(".")) && canNestHeaders(headers);
+
+    return body.map(record => {
+        const flat: TableRow = {};
+        headers.forEach((header, i) => {
+            // Short records leave the remaining keys missing rather than inventing values
+            if (i < record.length) flat[header] = coerceField(record[i].text, record[i].quoted);
+        });
+        return nestHeaders ? unflattenObject(flat) as TableRow : flat;
+    });
+};
+
+/** How list values are written to a flat file. */
+export type ArrayEncoding = "join" | "json" | "explode";
+
+export interface CSVExportOptions {
+    delimiter: Delimiter;
+    arrayEncoding: ArrayEncoding;
+    /** Separator between items when arrayEncoding is "join". */
+    joinSeparator: string;
+    /** Prefix a UTF-8 byte order mark so Excel detects the encoding. */
+    bom: boolean;
+}
+
+export const DEFAULT_CSV_EXPORT_OPTIONS: CSVExportOptions = {
+    delimiter: ",",
+    arrayEncoding: "join",
+    joinSeparator: "; ",
+    bom: false,
+};
+
+/** One output column: a flattened key, or one item of an exploded list. */
+interface HeaderSlot {
+    key: string;
+    index?: number;
+}
+
+// null: no value, written as an empty unquoted field
+const formatScalar = (value: unknown): string | null => {
+    if (value === null || value === undefined) return null;
+    if (typeof value === "object") return JSON.stringify(value);
+    return String(value);
+};
+
+// Empty and "null" strings are quoted, so they read back as text rather than null
+const escapeField = (field: string | null, delimiter: Delimiter): string => {
+    if (field === null) return "";
+    if (field === "" || field === "null" || field.includes(delimiter) || field.includes('"') || field.includes("\n") || field.includes("\r") || field !== field.trim()) {
+        return `"${field.replace(/"/g, '""')}"`;
+    }
+    return field;
+};
+
+/**
+ * A cell as flat key/value pairs: nested objects become dot-notation keys (address.city), everything else stays under the column name.
+ */
+const flattenCell = (col: string, value: unknown): [string, unknown][] => {
+    if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+        const entries = Object.entries(flattenObject({ [col]: value }));
+        // An empty object would otherwise disappear from the file
+        return entries.length > 0 ? entries : [[col, value]];
+    }
+    return [[col, value]];
+};
+
+/**
+ * Serializes rows to CSV/TSV with one column per flattened key, in the order of `columns`.
+ * Columns not listed (e.g. hidden ones) are left out.
+ */
+export const toCSV = (data: TableRow[], columns: string[], options: CSVExportOptions): string => {
+    const explode = options.arrayEncoding === "explode";
+
+    // Collect the flattened keys column by column, so sub-keys stay grouped under their column
+    const slots = new Map<string, { scalar: boolean; length: number }>();
+    const flatRows: Map<string, unknown>[] = data.map(() => new Map());
+    columns.forEach(col => {
+        data.forEach((row, rowIdx) => {
+            if (!(col in row)) return;
+            flattenCell(col, row[col]).forEach(([key, value]) => {
+                flatRows[rowIdx].set(key, value);
+                const slot = slots.get(key) ?? { scalar: false, length: 0 };
+                if (explode && Array.isArray(value)) slot.length = Math.max(slot.length, value.length);
+                else slot.scalar = true;
+                slots.set(key, slot);
+            });
+        });
+    });
+
+    const header: HeaderSlot[] = [];
+    slots.forEach((slot, key) => {
+        if (slot.scalar || slot.length === 0) header.push({ key });
+        for (let i = 0; i < slot.length; i++) header.push({ key, index: i });
+    });
+
+    const encode = (value: unknown, slot: HeaderSlot): string | null => {
+        if (slot.index !== undefined) {
+            return Array.isArray(value) ? formatScalar(value[slot.index]) : null;
+        }
+        if (Array.isArray(value)) {
+            // Exploded lists leave their plain column empty (it only holds non-list values)
+            if (explode) return value.length === 0 ? "[]" : null;
+            if (options.arrayEncoding === "json") return JSON.stringify(value);
+            return value.map(item => formatScalar(item) ?? "").join(options.joinSeparator);
+        }
+        return formatScalar(value);
+    };
+
+    const lines = [
+        header.map(slot => slot.index === undefined ? slot.key : `${slot.key}[${slot.index}]`),
+        ...flatRows.map(flat => header.map(slot => encode(flat.get(slot.key), slot))),
+    ].map(fields => fields.map(f => escapeField(f, options.delimiter)).join(options.delimiter));
+
+    // CRLF line endings: what Excel and RFC 4180 expect
+    return (options.bom ? "\uFEFF" : "") + lines.join("\r\n") + "\r\n";
+};
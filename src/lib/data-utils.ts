@@ -115,6 +115,82 @@ export const formatArrayOutput = (arr: string[]): string => {
     return arr.join(', ');
 };
 
+/**
+ * Reads a number written in plain decimal notation ("12", "-3.5", "1e3").
+ * Returns null for anything else: hex/binary/octal ("0x1F"), surrounding whitespace,
+ * and values that aren't finite ("Infinity", "1e400"), which JSON can't hold.
+ */
+export const parseNumber = (text: string): number | null => {
+    if (!/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(text)) return null;
+    const num = Number(text);
+    return Number.isFinite(num) ? num : null;
+};
+
+/**
+ * Converts a single cell value to the given column type.
+ * Returns ok: false (and the original value) when the conversion would lose data.
+ * null and undefined are left untouched for every type.
+ * An empty string isn't a number or a boolean either: turning it into null would lose the difference, so it fails too.
+ */
+export const coerceValue = (value: unknown, type: ColumnType): { ok: boolean; value: unknown } => {
+    if (value === null || value === undefined || type === 'auto') return { ok: true, value };
+
+    switch (type) {
+        case 'text':
+            if (typeof value === 'string') return { ok: true, value };
+            if (typeof value === 'object') return { ok: true, value: JSON.stringify(value) };
+            return { ok: true, value: String(value) };
+        case 'number': {
+            if (typeof value === 'number') return { ok: true, value };
+            if (typeof value === 'boolean') return { ok: true, value: value ? 1 : 0 };
+            if (typeof value === 'string') {
+                const num = parseNumber(value);
+                if (num !== null) return { ok: true, value: num };
+            }
+            return { ok: false, value };
+        }
+        case 'boolean': {
+            if (typeof value === 'boolean') return { ok: true, value };
+            if (value === 1 || value === 0) return { ok: true, value: value === 1 };
+            if (typeof value === 'string') {
+                const lower = value.trim().toLowerCase();
+                if (['true', 'yes', '1'].includes(lower)) return { ok: true, value: true };
+                if (['false', 'no', '0'].includes(lower)) return { ok: true, value: false };
+            }
+            return { ok: false, value };
+        }
+        case 'list': {
+            if (Array.isArray(value)) return { ok: true, value };
+            if (typeof value === 'string') {
+                const trimmed = value.trim();
+                if (trimmed.startsWith('[')) {
+                    try {
+                        const parsed = JSON.parse(trimmed);
+                        if (Array.isArray(parsed)) return { ok: true, value: parsed };
+                    } catch {
+                        return { ok: false, value };
+                    }
+                }
+                return { ok: true, value: trimmed === '' ? [] : parseArrayInput(trimmed) };
+            }
+            if (typeof value === 'object') return { ok: false, value };
+            return { ok: true, value: [value] };
+        }
+        case 'object': {
+            if (typeof value === 'object' && !Array.isArray(value)) return { ok: true, value };
+            if (typeof value === 'string') {
+                try {
+                    const parsed = JSON.parse(value);
+                    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return { ok: true, value: parsed };
+                } catch {
+                    return { ok: false, value };
+                }
+            }
+            return { ok: false, value };
+        }
+    }
+};
+
 export const getCellType = (val: unknown): 'string' | 'number' | 'boolean' | 'array' | 'object' => {
     if (Array.isArray(val)) return 'array';
     if (val === null) return 'string'; // Treat null as string input
@@ -162,3 +238,54 @@ export const safeParseJSON = (str: string): TableRow[] | null => {
         return null;
     }
 };
+
+/**
+ * The editable document: rows plus the table structure around them.
+ * Undo/redo covers all of it, so structural edits (delete column, reorder…) are one step.
+ */
+export interface DocumentState {
+    rows: TableRow[];
+    columns: string[];
+    schema: ColumnSchema;
+    hiddenColumns: string[];
+}
+
+export const createDocument = (rows: TableRow[]): DocumentState => ({
+    rows,
+    columns: inferColumns(rows),
+    schema: inferSchema(rows),
+    hiddenColumns: [],
+});
+
+/** One cell write; row is an index into the document's rows. An undefined value removes the key from the row. */
+export interface CellUpdate {
+    row: number;
+    col: string;
+    value: CellValue | undefined;
+}
+
+/**
+ * Applies cell writes in one pass, copying only the rows that change.
+ * Writes that wouldn't change the value (also for re-committed lists/objects) are skipped,
+ * so a batch of no-ops returns the same array and doesn't create a history step.
+ * Writes past the last row append rows (e.g. a paste running off the end of the table).
+ * Writing undefined deletes the key, so the row has no such field when exported (rather than null).
+ */
+export const applyCellUpdates = (rows: TableRow[], updates: CellUpdate[]): TableRow[] => {
+    let next: TableRow[] | null = null;
+    for (const { row, col, value } of updates) {
+        const current = (next ?? rows)[row]?.[col];
+        if (row < (next ?? rows).length) {
+            if (value === undefined && !(col in (next ?? rows)[row])) continue;
+            if (current === value && value !== undefined) continue;
+            if (typeof value === 'object' && value !== null && JSON.stringify(current) === JSON.stringify(value)) continue;
+        }
+
+        if (!next) next = [...rows];
+        while (next.length <= row) next.push({});
+        // Copy each row once; later writes to the same row reuse the copy
+        next[row] = next[row] === rows[row] ? { ...rows[row], [col]: value as CellValue } : Object.assign(next[row], { [col]: value as CellValue });
+        if (value === undefined) delete next[row][col];
+    }
+    return next ?? rows;
+};
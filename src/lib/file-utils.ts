@@ -0,0 +1,95 @@
+/**
+ * Triggers a browser download of text content.
+ */
+export const downloadFile = (content: string, fileName: string, type: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
+
+/** A file and, when it was opened through the File System Access API, the handle to save it back to. */
+export interface OpenedFile {
+    file: File;
+    handle?: FileSystemFileHandle;
+}
+
+// The File System Access API is Chromium-only and not in TypeScript's DOM types yet
+type PickerAcceptType = { description: string; accept: Record<string, string[]> };
+type FileSystemAccessWindow = {
+    showOpenFilePicker: (options?: { types?: PickerAcceptType[]; multiple?: boolean }) => Promise<FileSystemFileHandle[]>;
+    showSaveFilePicker: (options?: { suggestedName?: string; types?: PickerAcceptType[] }) => Promise<FileSystemFileHandle>;
+};
+
+export const supportsFileSystemAccess = (): boolean =>
+    typeof window !== "undefined" && "showOpenFilePicker" in window && "showSaveFilePicker" in window;
+
+const OPEN_TYPES: PickerAcceptType[] = [{
+    description: "JSON, JSON Lines or CSV",
+    accept: {
+        "application/json": [".json"],
+        "application/x-ndjson": [".jsonl", ".ndjson"],
+        "text/csv": [".csv"],
+        "text/tab-separated-values": [".tsv"],
+        "text/plain": [".txt"],
+    },
+}];
+
+const isAbort = (e: unknown) => e instanceof DOMException && e.name === "AbortError";
+
+/**
+ * Shows the native open dialog. Returns null when the user cancels.
+ */
+export const pickFileToOpen = async (): Promise<OpenedFile | null> => {
+    try {
+        const [handle] = await (window as unknown as FileSystemAccessWindow).showOpenFilePicker({ types: OPEN_TYPES });
+        return { file: await handle.getFile(), handle };
+    } catch (e) {
+        if (isAbort(e)) return null;
+        throw e;
+    }
+};
+
+/**
+ * Shows the native save dialog. Returns null when the user cancels.
+ */
+export const pickFileToSave = async (suggestedName: string): Promise<FileSystemFileHandle | null> => {
+    try {
+        return await (window as unknown as FileSystemAccessWindow).showSaveFilePicker({ suggestedName, types: OPEN_TYPES });
+    } catch (e) {
+        if (isAbort(e)) return null;
+        throw e;
+    }
+};
+
+/**
+ * Overwrites the file behind a handle. Handles restored from a previous session need the user's
+ * permission again, which the browser asks for here (this must run from a click or key press).
+ */
+export const writeToHandle = async (handle: FileSystemFileHandle, content: string): Promise<void> => {
+    const permissions = handle as FileSystemFileHandle & {
+        queryPermission?: (options: { mode: "readwrite" }) => Promise<PermissionState>;
+        requestPermission?: (options: { mode: "readwrite" }) => Promise<PermissionState>;
+    };
+    if (permissions.queryPermission && (await permissions.queryPermission({ mode: "readwrite" })) !== "granted") {
+        if ((await permissions.requestPermission?.({ mode: "readwrite" })) !== "granted") {
+            throw new DOMException(`Permission to write ${handle.name} was denied`, "NotAllowedError");
+        }
+    }
+    const writable = await handle.createWritable();
+    await writable.write(content);
+    await writable.close();
+};
+
+/**
+ * "report.json" -> "report.csv". Names without an extension get one appended.
+ */
+export const withExtension = (fileName: string, extension: string): string => {
+    const dot = fileName.lastIndexOf(".");
+    return `${dot > 0 ? fileName.slice(0, dot) : fileName}.${extension}`;
+};
@@ -0,0 +1,85 @@
+/**
+ * Series detection for the fill handle: given the values a drag starts from, what comes next.
+ * Follows spreadsheet conventions: numbers need two values to form a series (one number is copied),
+ * dates and "text + number" values count up by one from a single value.
+ */
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(T.*)?$/;
+const TEXT_WITH_NUMBER = /^(.*?)(\d+)(\D*)$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Repeats the sample: a, b, c → a, b, c, a, b…
+const cycle = (sample: unknown[], count: number): unknown[] =>
+    Array.from({ length: count }, (_, i) => sample[i % sample.length]);
+
+// The common difference of an arithmetic sequence, or null when the steps differ
+const constantStep = (values: number[]): number | null => {
+    if (values.length < 2) return null;
+    const step = values[1] - values[0];
+    for (let i = 2; i < values.length; i++) {
+        // Tolerate float noise (0.1, 0.2, 0.3)
+        if (Math.abs(values[i] - values[i - 1] - step) > 1e-9 * Math.max(1, Math.abs(step))) return null;
+    }
+    return step;
+};
+
+// Keeps the decimals of the sample, so 0.1 + 0.2 fills as 0.3
+const roundLike = (value: number, sample: number[]): number => {
+    const decimals = Math.max(...sample.map(n => (String(n).split(".")[1] ?? "").length));
+    return decimals > 0 && decimals < 15 ? Number(value.toFixed(decimals)) : value;
+};
+
+const numberSeries = (sample: number[], count: number): number[] | null => {
+    const step = constantStep(sample);
+    if (step === null) return null;
+    const last = sample[sample.length - 1];
+    return Array.from({ length: count }, (_, i) => roundLike(last + step * (i + 1), sample));
+};
+
+// Dates step in whole days; the time part (if any) is kept as it is
+const dateSeries = (sample: string[], count: number): string[] | null => {
+    const parsed = sample.map(s => s.match(ISO_DATE));
+    if (parsed.some(m => !m)) return null;
+    const days = parsed.map(m => Date.UTC(Number(m![1]), Number(m![2]) - 1, Number(m![3])) / DAY_MS);
+    if (days.some(isNaN)) return null;
+    const step = sample.length === 1 ? 1 : constantStep(days);
+    if (step === null) return null;
+    const time = parsed[parsed.length - 1]![4] ?? "";
+    const last = days[days.length - 1];
+    return Array.from({ length: count }, (_, i) =>
+        new Date((last + step * (i + 1)) * DAY_MS).toISOString().slice(0, 10) + time);
+};
+
+// "item-1", "item-2" → "item-3"…; zero padding ("v007") is kept
+const textNumberSeries = (sample: string[], count: number): string[] | null => {
+    const parsed = sample.map(s => s.match(TEXT_WITH_NUMBER));
+    if (parsed.some(m => !m)) return null;
+    const [, prefix, , suffix] = parsed[0]!;
+    if (parsed.some(m => m![1] !== prefix || m![3] !== suffix)) return null;
+    const numbers = parsed.map(m => Number(m![2]));
+    const step = sample.length === 1 ? 1 : constantStep(numbers);
+    if (step === null) return null;
+    const width = parsed[parsed.length - 1]![2].length;
+    const last = numbers[numbers.length - 1];
+    // A countdown that would go below zero isn't a series of these names
+    if (last + step * count < 0) return null;
+    return Array.from({ length: count }, (_, i) =>
+        `${prefix}${String(last + step * (i + 1)).padStart(width, "0")}${suffix}`);
+};
+
+/**
+ * The next `count` values after `sample`: a numeric, date or text-with-number series when the sample forms one,
+ * otherwise the sample repeated.
+ */
+export const extendSeries = (sample: unknown[], count: number): unknown[] => {
+    if (count <= 0 || sample.length === 0) return [];
+
+    if (sample.every(v => typeof v === "number" && isFinite(v))) {
+        return numberSeries(sample as number[], count) ?? cycle(sample, count);
+    }
+    if (sample.every(v => typeof v === "string")) {
+        const strings = sample as string[];
+        return dateSeries(strings, count) ?? textNumberSeries(strings, count) ?? cycle(sample, count);
+    }
+    return cycle(sample, count);
+};
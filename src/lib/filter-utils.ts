@@ -0,0 +1,156 @@
+import type { TableRow } from "@/lib/data-utils";
+
+export type FilterOp =
+    | "contains"      // text: case-insensitive substring
+    | "regex"         // text: regular expression
+    | "range"         // number: min and/or max (inclusive)
+    | "is-true"       // boolean
+    | "is-false"      // boolean
+    | "list-contains" // list: any item contains the value
+    | "has-key"       // object: key exists
+    | "is-null"       // any: key present with a null value
+    | "is-missing";   // any: key absent from the row
+
+export interface ColumnFilter {
+    op: FilterOp;
+    value?: string;
+    min?: string;
+    max?: string;
+}
+
+export type FilterMode = "and" | "or";
+
+export interface FilterConfig {
+    mode: FilterMode;
+    columns: Record<string, ColumnFilter>;
+}
+
+export const FILTER_OP_LABELS: Record<FilterOp, string> = {
+    "contains": "Contains",
+    "regex": "Matches regex",
+    "range": "Between",
+    "is-true": "Is true",
+    "is-false": "Is false",
+    "list-contains": "List contains",
+    "has-key": "Has key",
+    "is-null": "Is null",
+    "is-missing": "Is missing",
+};
+
+/**
+ * Predicates offered for a column, based on the DataTable column type (string/number/boolean/array/object).
+ * The first one is the default.
+ */
+export const filterOpsForType = (type: string | undefined): FilterOp[] => {
+    switch (type) {
+        case "number": return ["range", "contains", "is-null", "is-missing"];
+        case "boolean": return ["is-true", "is-false", "is-null", "is-missing"];
+        case "array": return ["list-contains", "is-null", "is-missing"];
+        case "object": return ["has-key", "contains", "is-null", "is-missing"];
+        default: return ["contains", "regex", "is-null", "is-missing"];
+    }
+};
+
+type RowPredicate = (row: TableRow) => boolean;
+
+const toNumber = (value: unknown): number => {
+    if (typeof value === "number") return value;
+    if (typeof value === "string" && value.trim() !== "") return Number(value);
+    return NaN;
+};
+
+const toSearchText = (value: unknown): string => {
+    if (value === null || value === undefined) return "";
+    return (typeof value === "object" ? JSON.stringify(value) : String(value)).toLowerCase();
+};
+
+/**
+ * Returns true when a regex filter can't be compiled, so the UI can flag it.
+ */
+export const isInvalidFilter = (filter: ColumnFilter): boolean => {
+    if (filter.op !== "regex" || !filter.value) return false;
+    try {
+        new RegExp(filter.value, "i");
+        return false;
+    } catch {
+        return true;
+    }
+};
+
+/**
+ * Builds the predicate for one column, or null when the filter doesn't constrain anything
+ * (empty input, invalid regex) and should be ignored.
+ */
+const compileFilter = (col: string, filter: ColumnFilter): RowPredicate | null => {
+    const value = filter.value?.trim() ?? "";
+
+    switch (filter.op) {
+        case "contains": {
+            if (!value) return null;
+            const needle = value.toLowerCase();
+            return row => toSearchText(row[col]).includes(needle);
+        }
+        case "regex": {
+            if (!value || isInvalidFilter(filter)) return null;
+            const re = new RegExp(value, "i");
+            return row => row[col] !== null && row[col] !== undefined && re.test(typeof row[col] === "object" ? JSON.stringify(row[col]) : String(row[col]));
+        }
+        case "range": {
+            const min = filter.min?.trim() ? Number(filter.min) : null;
+            const max = filter.max?.trim() ? Number(filter.max) : null;
+            if ((min === null || isNaN(min)) && (max === null || isNaN(max))) return null;
+            return row => {
+                const num = toNumber(row[col]);
+                if (isNaN(num)) return false;
+                if (min !== null && !isNaN(min) && num < min) return false;
+                if (max !== null && !isNaN(max) && num > max) return false;
+                return true;
+            };
+        }
+        case "is-true":
+            return row => row[col] === true;
+        case "is-false":
+            return row => row[col] === false;
+        case "list-contains": {
+            if (!value) return null;
+            const needle = value.toLowerCase();
+            return row => {
+                const list = row[col];
+                return Array.isArray(list) && list.some(item => toSearchText(item).includes(needle));
+            };
+        }
+        case "has-key": {
+            if (!value) return null;
+            return row => {
+                const obj = row[col] as unknown;
+                return obj !== null && typeof obj === "object" && !Array.isArray(obj) && value in obj;
+            };
+        }
+        case "is-null":
+            return row => col in row && row[col] === null;
+        case "is-missing":
+            return row => !(col in row) || row[col] === undefined;
+    }
+};
+
+export const countActiveFilters = (config: FilterConfig): number =>
+    Object.entries(config.columns).filter(([col, filter]) => compileFilter(col, filter) !== null).length;
+
+/**
+ * Keeps the indices (into data) of rows that pass the filters, preserving their order.
+ * Filters that are empty or invalid are ignored; with none left, every row passes.
+ */
+export const filterRowIndices = (data: TableRow[], indices: number[], config: FilterConfig): number[] => {
+    const predicates = Object.entries(config.columns)
+        .map(([col, filter]) => compileFilter(col, filter))
+        .filter((p): p is RowPredicate => p !== null);
+
+    if (predicates.length === 0) return indices;
+
+    return indices.filter(idx => {
+        const row = data[idx];
+        return config.mode === "and"
+            ? predicates.every(p => p(row))
+            : predicates.some(p => p(row));
+    });
+};
@@ -0,0 +1,104 @@
+import { safeParseJSON, type TableRow } from "@/lib/data-utils";
+import { looksLikeDelimited, parseCSV } from "@/lib/csv-utils";
+import { looksLikeJSONL, parseJSONL, type LineError } from "@/lib/jsonl-utils";
+import { detectJsonFormat, type JsonFormat } from "@/lib/json-format-utils";
+import { findArrayPaths, getAtPath, setAtPath, type ArrayCandidate, type DocumentEnvelope, type JsonPath } from "@/lib/json-path-utils";
+
+export type ImportFormat = "json" | "jsonl" | "csv";
+
+export interface ParsedImport {
+    rows: TableRow[];
+    format: ImportFormat;
+    /** JSON Lines only: lines that were skipped. */
+    lineErrors?: LineError[];
+    /** JSON only: indentation and line endings of the source, reused on export. */
+    jsonFormat?: JsonFormat;
+    /** Set when the rows came from inside a wrapper object, so export can put them back. */
+    envelope?: DocumentEnvelope;
+    /** JSON only: the parsed document and every array of objects in it, when there is more than one to choose from. */
+    document?: unknown;
+    candidates?: ArrayCandidate[];
+}
+
+const extensionOf = (fileName?: string) => fileName?.split(".").pop()?.toLowerCase() ?? "";
+
+const fromJSONL = (text: string): ParsedImport | null => {
+    const result = parseJSONL(text);
+    return result ? { rows: result.rows, format: "jsonl", lineErrors: result.errors } : null;
+};
+
+/**
+ * Takes the rows at path out of a document, keeping the rest of it as the envelope.
+ */
+export const extractArray = (document: unknown, path: JsonPath): { rows: TableRow[]; envelope?: DocumentEnvelope } => {
+    const rows = getAtPath(document, path) as TableRow[];
+    if (path.length === 0) return { rows };
+    // The rows live in the table from now on; don't keep a second copy in the envelope
+    return { rows, envelope: { root: setAtPath(document, path, []), path } };
+};
+
+/**
+ * The array to open by default: the shallowest one, and the largest among those.
+ */
+export const defaultCandidate = (candidates: ArrayCandidate[]): ArrayCandidate =>
+    candidates.reduce((best, c) =>
+        c.path.length < best.path.length || (c.path.length === best.path.length && c.count > best.count) ? c : best
+    );
+
+const fromJSONDocument = (text: string): ParsedImport | null => {
+    let document: unknown;
+    try {
+        document = JSON.parse(text);
+    } catch {
+        return null;
+    }
+
+    const jsonFormat = detectJsonFormat(text);
+    if (Array.isArray(document)) return { rows: document, format: "json", jsonFormat };
+    if (!document || typeof document !== "object") return null;
+
+    const candidates = findArrayPaths(document);
+    if (candidates.length === 0) {
+        // No array of objects anywhere: fall back to the single-row / wrapper handling
+        const rows = safeParseJSON(text);
+        return rows ? { rows, format: "json", jsonFormat } : null;
+    }
+
+    const { rows, envelope } = extractArray(document, defaultCandidate(candidates).path);
+    return {
+        rows,
+        format: "json",
+        jsonFormat,
+        envelope,
+        ...(candidates.length > 1 ? { document, candidates } : {}),
+    };
+};
+
+/**
+ * Parses imported text (file, drop or paste) into rows.
+ * The file extension decides the format when there is one; otherwise JSON is tried first, then JSON Lines, then CSV/TSV.
+ */
+export const parseImportText = (text: string, fileName?: string): ParsedImport | null => {
+    const ext = extensionOf(fileName);
+
+    if (ext === "csv" || ext === "tsv") {
+        const rows = parseCSV(text, ext === "tsv" ? "\t" : undefined);
+        return rows ? { rows, format: "csv" } : null;
+    }
+
+    if (ext === "jsonl" || ext === "ndjson") return fromJSONL(text);
+
+    const json = fromJSONDocument(text);
+    if (json) return json;
+
+    // JSON Lines files are often saved as .json
+    if (looksLikeJSONL(text)) return fromJSONL(text);
+    if (ext === "json") return null;
+
+    if (looksLikeDelimited(text)) {
+        const rows = parseCSV(text);
+        if (rows) return { rows, format: "csv" };
+    }
+
+    return null;
+};
@@ -0,0 +1,45 @@
+/** How a JSON file was written, so it can be written back the same way (and diff cleanly). */
+export interface JsonFormat {
+    /** One level of indentation: "  ", "    ", "\t", or "" for minified JSON. */
+    indent: string;
+    newline: "\n" | "\r\n";
+    trailingNewline: boolean;
+}
+
+export const DEFAULT_JSON_FORMAT: JsonFormat = {
+    indent: "  ",
+    newline: "\n",
+    trailingNewline: false,
+};
+
+/**
+ * Reads the formatting conventions of a JSON text.
+ * The indent unit is taken from the first indented line, which is always one level deep.
+ */
+export const detectJsonFormat = (text: string): JsonFormat => {
+    const body = text.replace(/\s+$/, "");
+    const indentMatch = body.match(/\n([ \t]+)\S/);
+
+    return {
+        indent: indentMatch ? indentMatch[1] : body.includes("\n") ? DEFAULT_JSON_FORMAT.indent : "",
+        newline: text.includes("\r\n") ? "\r\n" : "\n",
+        trailingNewline: /\n$/.test(text),
+    };
+};
+
+export const describeJsonFormat = (format: JsonFormat): string => {
+    if (!format.indent) return "minified";
+    const indent = format.indent.includes("\t")
+        ? (format.indent.length === 1 ? "tabs" : `${format.indent.length} tabs`)
+        : `${format.indent.length} spaces`;
+    return `${indent}${format.newline === "\r\n" ? ", CRLF" : ""}`;
+};
+
+/**
+ * JSON.stringify with the given formatting. Key order is whatever order the objects have.
+ */
+export const formatJson = (value: unknown, format: JsonFormat): string => {
+    let json = JSON.stringify(value, null, format.indent);
+    if (format.newline === "\r\n") json = json.replace(/\n/g, "\r\n");
+    return format.trailingNewline ? json + format.newline : json;
+};
@@ -0,0 +1,76 @@
+import type { TableRow } from "@/lib/data-utils";
+
+/** Location of a value inside a JSON document: object keys and array indices from the root. */
+export type JsonPath = (string | number)[];
+
+/** An array of objects found in a document, i.e. something that can be edited as a table. */
+export interface ArrayCandidate {
+    path: JsonPath;
+    count: number;
+    /** Keys of the first few rows, for a preview. */
+    sampleKeys: string[];
+}
+
+/**
+ * The document an array was taken from, with that array left empty.
+ * On export the edited rows are put back at `path`, so the fields around them (meta, pagination…) survive.
+ */
+export interface DocumentEnvelope {
+    root: unknown;
+    path: JsonPath;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * $.payload.users, $.included[0].items, $["odd key"]
+ */
+export const formatPath = (path: JsonPath): string =>
+    "$" + path.map(seg => {
+        if (typeof seg === "number") return `[${seg}]`;
+        return /^[A-Za-z_$][\w$]*$/.test(seg) ? `.${seg}` : `[${JSON.stringify(seg)}]`;
+    }).join("");
+
+export const getAtPath = (doc: unknown, path: JsonPath): unknown =>
+    path.reduce<unknown>((current, seg) => (current as Record<string | number, unknown> | null | undefined)?.[seg], doc);
+
+/**
+ * Returns a copy of doc with the value at path replaced. Only the containers along the path are copied.
+ */
+export const setAtPath = (doc: unknown, path: JsonPath, value: unknown): unknown => {
+    if (path.length === 0) return value;
+    const [head, ...rest] = path;
+    const container = (Array.isArray(doc) ? [...doc] : { ...(doc as Record<string, unknown>) }) as Record<string | number, unknown>;
+    container[head] = setAtPath(container[head], rest, value);
+    return container;
+};
+
+const isArrayOfObjects = (value: unknown): value is TableRow[] =>
+    Array.isArray(value) && value.length > 0 && value.every(isPlainObject);
+
+/**
+ * Lists every non-empty array of objects in the document, outermost first.
+ * Doesn't look inside the arrays it finds: rows with nested lists are edited through the nested table instead.
+ */
+export const findArrayPaths = (doc: unknown, maxDepth = 8): ArrayCandidate[] => {
+    const found: ArrayCandidate[] = [];
+
+    const visit = (value: unknown, path: JsonPath) => {
+        if (isArrayOfObjects(value)) {
+            const keys = new Set<string>();
+            value.slice(0, 5).forEach(row => Object.keys(row).forEach(k => keys.add(k)));
+            found.push({ path, count: value.length, sampleKeys: Array.from(keys) });
+            return;
+        }
+        if (path.length >= maxDepth) return;
+        if (isPlainObject(value)) {
+            Object.entries(value).forEach(([key, child]) => visit(child, [...path, key]));
+        } else if (Array.isArray(value)) {
+            value.forEach((child, i) => visit(child, [...path, i]));
+        }
+    };
+
+    visit(doc, []);
+    return found;
+};
@@ -0,0 +1,229 @@
+import type { TableRow } from "@/lib/data-utils";
+
+/**
+ * The part of JSON Schema (draft 2020-12) the editor validates against. Other keywords are accepted and ignored.
+ */
+export type JsonSchemaType = "string" | "number" | "integer" | "boolean" | "null" | "array" | "object";
+
+export interface JsonSchemaObject {
+    type?: JsonSchemaType | JsonSchemaType[];
+    enum?: unknown[];
+    const?: unknown;
+    required?: string[];
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number;
+    exclusiveMaximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    minItems?: number;
+    maxItems?: number;
+    pattern?: string;
+    format?: string;
+    title?: string;
+    description?: string;
+}
+
+/** true accepts any value, false none (2020-12 boolean schemas). */
+export type JsonSchema = JsonSchemaObject | boolean;
+
+/** Error messages of one row, by column. */
+export type RowErrors = Record<string, string>;
+
+/** An invalid cell; row is an index into data. */
+export interface CellError {
+    row: number;
+    col: string;
+    message: string;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Reads a schema for the rows: either for the whole document (type array, with items) or for one row (type object).
+ * Returns the row schema, or an error message for the user.
+ */
+export const parseJsonSchema = (text: string): { ok: true; schema: JsonSchemaObject } | { ok: false; error: string } => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch (e) {
+        return { ok: false, error: `Not valid JSON: ${(e as Error).message}` };
+    }
+    if (!isPlainObject(parsed)) return { ok: false, error: "A schema must be a JSON object." };
+    const schema = parsed as JsonSchemaObject;
+    if (isPlainObject(schema.items) && (schema.type === "array" || !schema.properties)) {
+        return { ok: true, schema: schema.items as JsonSchemaObject };
+    }
+    if (!schema.properties && !schema.required) {
+        return { ok: false, error: "The schema describes no columns. Expected an object schema with properties, or an array schema with items." };
+    }
+    return { ok: true, schema };
+};
+
+const typeOf = (value: unknown): string =>
+    value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+const hasType = (value: unknown, type: JsonSchemaType): boolean => {
+    switch (type) {
+        case "integer": return Number.isInteger(value);
+        case "number": return typeof value === "number" && isFinite(value);
+        case "array": return Array.isArray(value);
+        case "object": return isPlainObject(value);
+        case "null": return value === null;
+        default: return typeof value === type;
+    }
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const FORMATS: Record<string, (value: string) => boolean> = {
+    "date": s => {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(s)) return false;
+        // Out-of-range parts (month 13, day 32) give an invalid date, on which toISOString throws
+        const date = new Date(`${s}T00:00:00Z`);
+        return !isNaN(date.getTime()) && date.toISOString().startsWith(s);
+    },
+    "date-time": s => /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(s) && !isNaN(Date.parse(s)),
+    "time": s => /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})?$/.test(s),
+    "email": s => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(s),
+    "uri": s => {
+        try {
+            return !!new URL(s).protocol;
+        } catch {
+            return false;
+        }
+    },
+    "uuid": s => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(s),
+    "ipv4": s => /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/.test(s),
+};
+
+// Patterns are compiled once; an invalid pattern checks nothing
+const patternCache = new Map<string, RegExp | null>();
+const compilePattern = (pattern: string): RegExp | null => {
+    if (!patternCache.has(pattern)) {
+        try {
+            patternCache.set(pattern, new RegExp(pattern, "u"));
+        } catch {
+            patternCache.set(pattern, null);
+        }
+    }
+    return patternCache.get(pattern)!;
+};
+
+const describe = (value: unknown): string => JSON.stringify(value) ?? String(value);
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+
+// path is where value sits inside the cell ("address.city", "tags[2]"), empty for the cell itself
+const check = (value: unknown, schema: JsonSchema, path: string): string | null => {
+    if (schema === true) return null;
+    const fail = (message: string) => (path ? `${path}: ${message}` : message);
+    if (schema === false) return fail("No value is allowed here");
+
+    if (schema.type !== undefined) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some(type => hasType(value, type))) {
+            return fail(`Expected ${types.join(" or ")}, got ${typeOf(value)}`);
+        }
+    }
+    if (schema.const !== undefined && !sameValue(value, schema.const)) {
+        return fail(`Must be ${describe(schema.const)}`);
+    }
+    if (schema.enum && !schema.enum.some(option => sameValue(value, option))) {
+        return fail(`Must be one of ${schema.enum.map(describe).join(", ")}`);
+    }
+
+    if (typeof value === "number") {
+        if (schema.minimum !== undefined && value < schema.minimum) return fail(`Must be ≥ ${schema.minimum}`);
+        if (schema.maximum !== undefined && value > schema.maximum) return fail(`Must be ≤ ${schema.maximum}`);
+        if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) return fail(`Must be > ${schema.exclusiveMinimum}`);
+        if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) return fail(`Must be < ${schema.exclusiveMaximum}`);
+    }
+
+    if (typeof value === "string") {
+        // Lengths count code points, like the spec
+        const length = [...value].length;
+        if (schema.minLength !== undefined && length < schema.minLength) return fail(`Must be at least ${plural(schema.minLength, "character")}`);
+        if (schema.maxLength !== undefined && length > schema.maxLength) return fail(`Must be at most ${plural(schema.maxLength, "character")}`);
+        const pattern = schema.pattern !== undefined ? compilePattern(schema.pattern) : null;
+        if (pattern && !pattern.test(value)) return fail(`Must match /${schema.pattern}/`);
+        const checkFormat = schema.format !== undefined ? FORMATS[schema.format] : undefined;
+        if (checkFormat && !checkFormat(value)) return fail(`Not a valid ${schema.format}`);
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) return fail(`Must have at least ${plural(schema.minItems, "item")}`);
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) return fail(`Must have at most ${plural(schema.maxItems, "item")}`);
+        if (schema.items !== undefined) {
+            for (let i = 0; i < value.length; i++) {
+                const error = check(value[i], schema.items, `${path}[${i}]`);
+                if (error) return error;
+            }
+        }
+    }
+
+    if (isPlainObject(value)) {
+        for (const key of schema.required ?? []) {
+            if (value[key] === undefined) return `${path ? `${path}.` : ""}${key}: Required`;
+        }
+        for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+            if (value[key] === undefined) continue;
+            const error = check(value[key], propertySchema, path ? `${path}.${key}` : key);
+            if (error) return error;
+        }
+    }
+
+    return null;
+};
+
+/**
+ * The first problem with a value, or null when it is valid. Nested errors are prefixed with their path ("address.city: …").
+ */
+export const validateValue = (value: unknown, schema: JsonSchema): string | null => check(value, schema, "");
+
+// Rows are only copied when they change, so unchanged rows keep their result between edits
+const rowCache = new WeakMap<JsonSchemaObject, WeakMap<TableRow, RowErrors | null>>();
+
+/**
+ * Validates one row (an object) against the row schema: each property is a column.
+ * Returns the errors by column, or null when the row is valid.
+ */
+export const validateRow = (row: TableRow, schema: JsonSchemaObject): RowErrors | null => {
+    let cache = rowCache.get(schema);
+    if (!cache) {
+        cache = new WeakMap();
+        rowCache.set(schema, cache);
+    }
+    if (cache.has(row)) return cache.get(row)!;
+
+    const errors: RowErrors = {};
+    for (const col of schema.required ?? []) {
+        if (row[col] === undefined) errors[col] = "Required";
+    }
+    for (const [col, propertySchema] of Object.entries(schema.properties ?? {})) {
+        if (row[col] === undefined || errors[col]) continue;
+        const error = validateValue(row[col], propertySchema);
+        if (error) errors[col] = error;
+    }
+
+    const result = Object.keys(errors).length > 0 ? errors : null;
+    cache.set(row, result);
+    return result;
+};
+
+/**
+ * The invalid cells in reading order (row by row, left to right over columns).
+ */
+export const listCellErrors = (rowErrors: (RowErrors | null)[], columns: string[]): CellError[] => {
+    const errors: CellError[] = [];
+    rowErrors.forEach((byColumn, row) => {
+        if (!byColumn) return;
+        columns.forEach(col => {
+            if (byColumn[col]) errors.push({ row, col, message: byColumn[col] });
+        });
+    });
+    return errors;
+};
@@ -0,0 +1,72 @@
+import type { TableRow } from "@/lib/data-utils";
+
+/** A line of a JSON Lines file that could not be read as a row. line is 1-based. */
+export interface LineError {
+    line: number;
+    message: string;
+}
+
+export interface JSONLResult {
+    rows: TableRow[];
+    errors: LineError[];
+}
+
+const isPlainObject = (value: unknown): value is TableRow =>
+    value !== null && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Cheap check: at least two non-blank lines and the first one is a JSON object on its own.
+ */
+export const looksLikeJSONL = (text: string): boolean => {
+    const lines = text.split(/\r?\n/).filter(l => l.trim() !== "");
+    if (lines.length < 2) return false;
+    try {
+        return isPlainObject(JSON.parse(lines[0]));
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Parses JSON Lines / NDJSON: one object per line. Blank lines are skipped.
+ * Lines that aren't valid JSON objects are reported (not fatal); returns null when no line could be read.
+ */
+export const parseJSONL = (text: string): JSONLResult | null => {
+    const rows: TableRow[] = [];
+    const errors: LineError[] = [];
+
+    text.split(/\r?\n/).forEach((raw, i) => {
+        const line = raw.trim();
+        if (!line) return;
+        try {
+            const value = JSON.parse(line);
+            if (isPlainObject(value)) {
+                rows.push(value);
+            } else {
+                errors.push({ line: i + 1, message: "Not an object" });
+            }
+        } catch (e) {
+            errors.push({ line: i + 1, message: e instanceof Error ? e.message : "Invalid JSON" });
+        }
+    });
+
+    return rows.length > 0 ? { rows, errors } : null;
+};
+
+/**
+ * Serializes rows as JSON Lines (one compact object per line, trailing newline).
+ */
+export const toJSONL = (data: TableRow[]): string =>
+    data.map(row => JSON.stringify(row)).join("\n") + "\n";
+
+/**
+ * "lines 3, 7 and 12", shortened for long lists.
+ */
+export const describeLineErrors = (errors: LineError[], max = 5): string => {
+    const shown = errors.slice(0, max).map(e => e.line);
+    const rest = errors.length - shown.length;
+    const label = errors.length === 1 ? "line" : "lines";
+    if (rest > 0) return `${label} ${shown.join(", ")} and ${rest} more`;
+    if (shown.length === 1) return `${label} ${shown[0]}`;
+    return `${label} ${shown.slice(0, -1).join(", ")} and ${shown[shown.length - 1]}`;
+};
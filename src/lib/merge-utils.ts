@@ -0,0 +1,102 @@
+import { createDocument, inferColumns, inferSchema, type DocumentState, type TableRow } from "@/lib/data-utils";
+
+/** How imported rows are combined with the open document. */
+export type MergeMode = "replace" | "append" | "upsert";
+
+export interface MergeResult {
+    document: DocumentState;
+    added: number;
+    /** Existing rows whose values changed (upsert only). */
+    updated: number;
+    /** Existing rows that matched a key but already had the imported values (upsert only). */
+    unchanged: number;
+    /** Columns that are new to the document, appended after the existing ones. */
+    newColumns: string[];
+}
+
+// Key values are compared as JSON, so 1 and "1" are different keys but equal lists/objects match
+const keyOf = (value: unknown): string | null =>
+    value === null || value === undefined || value === "" ? null : JSON.stringify(value);
+
+const sameValues = (a: TableRow, b: TableRow): boolean =>
+    Object.keys(b).every(k => k in a && JSON.stringify(a[k]) === JSON.stringify(b[k]));
+
+/**
+ * Columns present in both the document and the imported rows: the possible upsert keys.
+ */
+export const commonColumns = (doc: DocumentState, incoming: TableRow[]): string[] => {
+    const incomingColumns = new Set(inferColumns(incoming));
+    return doc.columns.filter(col => incomingColumns.has(col));
+};
+
+/**
+ * Combines imported rows with the document. Used both for the preview counts and to apply the merge.
+ * - replace: the imported rows become the document
+ * - append: imported rows are added after the existing ones
+ * - upsert: rows with a matching key value are updated (imported values win, other fields are kept);
+ *   the rest, including rows without a key value, are appended
+ * New columns are added to columns and schema; the existing column order, types and hidden columns are kept.
+ */
+export const mergeRows = (doc: DocumentState, incoming: TableRow[], mode: MergeMode, key?: string): MergeResult => {
+    if (mode === "replace") {
+        const document = createDocument(incoming);
+        return {
+            document,
+            added: incoming.length,
+            updated: 0,
+            unchanged: 0,
+            newColumns: document.columns.filter(col => !doc.columns.includes(col)),
+        };
+    }
+
+    const rows = [...doc.rows];
+    let added = 0;
+    const updatedRows = new Set<number>();
+    const matchedRows = new Set<number>();
+
+    if (mode === "upsert" && key) {
+        const index = new Map<string, number>();
+        rows.forEach((row, i) => {
+            const k = keyOf(row[key]);
+            if (k !== null && !index.has(k)) index.set(k, i);
+        });
+        for (const row of incoming) {
+            const k = keyOf(row[key]);
+            const target = k === null ? undefined : index.get(k);
+            if (target === undefined) {
+                if (k !== null) index.set(k, rows.length);
+                rows.push(row);
+                added++;
+                continue;
+            }
+            matchedRows.add(target);
+            if (!sameValues(rows[target], row)) {
+                rows[target] = { ...rows[target], ...row };
+                // Rows added by this import that match again are still "added"
+                if (target < doc.rows.length) updatedRows.add(target);
+            }
+        }
+    } else {
+        rows.push(...incoming);
+        added = incoming.length;
+    }
+
+    const newColumns = inferColumns(incoming).filter(col => !doc.columns.includes(col));
+    const incomingSchema = inferSchema(incoming);
+    const existingMatched = [...matchedRows].filter(i => i < doc.rows.length);
+
+    return {
+        document: {
+            ...doc,
+            rows,
+            columns: newColumns.length > 0 ? [...doc.columns, ...newColumns] : doc.columns,
+            schema: newColumns.length > 0
+                ? { ...doc.schema, ...Object.fromEntries(newColumns.map(col => [col, incomingSchema[col]])) }
+                : doc.schema,
+        },
+        added,
+        updated: updatedRows.size,
+        unchanged: existingMatched.filter(i => !updatedRows.has(i)).length,
+        newColumns,
+    };
+};
@@ -0,0 +1,173 @@
+import type { TableRow } from "@/lib/data-utils";
+import type { JsonSchemaObject, JsonSchemaType } from "@/lib/json-schema-utils";
+
+/**
+ * Generates a contract for the rows as they are: a JSON Schema (draft 2020-12) and TypeScript interfaces.
+ * Every value is looked at, so a column holding numbers and text becomes a union, and a key missing from
+ * some rows (or nested objects) is optional.
+ */
+
+// What the values at one place in the document look like
+interface Shape {
+    types: Set<JsonSchemaType>;
+    /** Keys of the object values, in first-seen order, with how many objects had each */
+    properties: Map<string, { shape: Shape; count: number }>;
+    objectCount: number;
+    /** All items of all array values */
+    items: Shape | null;
+}
+
+const emptyShape = (): Shape => ({ types: new Set(), properties: new Map(), objectCount: 0, items: null });
+
+const addValue = (shape: Shape, value: unknown) => {
+    if (value === undefined) return;
+    if (value === null) {
+        shape.types.add("null");
+    } else if (Array.isArray(value)) {
+        shape.types.add("array");
+        shape.items ??= emptyShape();
+        value.forEach(item => addValue(shape.items!, item));
+    } else if (typeof value === "object") {
+        shape.types.add("object");
+        shape.objectCount++;
+        Object.entries(value).forEach(([key, nested]) => {
+            if (nested === undefined) return;
+            let property = shape.properties.get(key);
+            if (!property) {
+                property = { shape: emptyShape(), count: 0 };
+                shape.properties.set(key, property);
+            }
+            property.count++;
+            addValue(property.shape, nested);
+        });
+    } else if (typeof value === "number") {
+        shape.types.add(Number.isInteger(value) ? "integer" : "number");
+    } else if (typeof value === "boolean") {
+        shape.types.add("boolean");
+    } else {
+        shape.types.add("string");
+    }
+};
+
+// A number column with some whole numbers is a number column; keeps a stable order for the output
+const TYPE_ORDER: JsonSchemaType[] = ["string", "number", "integer", "boolean", "object", "array", "null"];
+const typesOf = (shape: Shape): JsonSchemaType[] => {
+    const types = new Set(shape.types);
+    if (types.has("number")) types.delete("integer");
+    return TYPE_ORDER.filter(type => types.has(type));
+};
+
+// The row shape; columns gives the property order (keys only some rows have still come last)
+const shapeOfRows = (rows: TableRow[], columns: string[]): Shape => {
+    const shape = emptyShape();
+    columns.forEach(col => shape.properties.set(col, { shape: emptyShape(), count: 0 }));
+    rows.forEach(row => addValue(shape, row));
+    // Columns without a value in any row have nothing to describe
+    columns.forEach(col => {
+        if (shape.properties.get(col)!.count === 0) shape.properties.delete(col);
+    });
+    return shape;
+};
+
+const toJsonSchema = (shape: Shape): JsonSchemaObject => {
+    const schema: JsonSchemaObject = {};
+    const types = typesOf(shape);
+    if (types.length === 1) schema.type = types[0];
+    else if (types.length > 1) schema.type = types;
+
+    if (shape.properties.size > 0) {
+        schema.properties = Object.fromEntries(
+            [...shape.properties].map(([key, property]) => [key, toJsonSchema(property.shape)])
+        );
+        const required = [...shape.properties].filter(([, property]) => property.count === shape.objectCount).map(([key]) => key);
+        if (required.length > 0) schema.required = required;
+    }
+    if (shape.items && shape.items.types.size > 0) schema.items = toJsonSchema(shape.items);
+    return schema;
+};
+
+/**
+ * A JSON Schema for the whole document: an array of row objects.
+ */
+export const generateJsonSchema = (rows: TableRow[], columns: string[], title?: string): string => {
+    const schema = {
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        ...(title ? { title } : {}),
+        type: "array",
+        items: toJsonSchema(shapeOfRows(rows, columns)),
+    };
+    return JSON.stringify(schema, null, 2) + "\n";
+};
+
+// "order_items" → "OrderItems"; names that don't start with a letter get a prefix
+const toPascalCase = (name: string): string => {
+    const words = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+    const pascal = words.map(word => word[0].toUpperCase() + word.slice(1)).join("");
+    return /^[A-Za-z]/.test(pascal) ? pascal : `T${pascal}`;
+};
+
+// Array items are named after one of them: "employees" → "Employee"
+const singular = (name: string): string =>
+    name.endsWith("ies") && name.length > 4 ? `${name.slice(0, -3)}y`
+        : name.endsWith("s") && !name.endsWith("ss") && name.length > 3 ? name.slice(0, -1)
+        : `${name}Item`;
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+const formatKey = (key: string): string => (IDENTIFIER.test(key) ? key : JSON.stringify(key));
+
+/**
+ * TypeScript interfaces for a row and every nested object, named after their keys.
+ * rootName is the row interface ("Order" for orders.json).
+ */
+export const generateTypeScript = (rows: TableRow[], columns: string[], rootName = "Row"): string => {
+    const declarations: string[] = [];
+    const usedNames = new Set<string>();
+
+    const uniqueName = (base: string): string => {
+        let name = base;
+        for (let i = 2; usedNames.has(name); i++) name = `${base}${i}`;
+        usedNames.add(name);
+        return name;
+    };
+
+    const typeOf = (shape: Shape, name: string): string => {
+        const parts = typesOf(shape).map(type => {
+            switch (type) {
+                case "integer":
+                case "number": return "number";
+                case "null": return "null";
+                case "object": return shape.properties.size > 0 ? declare(shape, name) : "Record<string, unknown>";
+                case "array": {
+                    const itemType = shape.items && shape.items.types.size > 0 ? typeOf(shape.items, singular(name)) : "unknown";
+                    return itemType.includes(" | ") ? `(${itemType})[]` : `${itemType}[]`;
+                }
+                default: return type;
+            }
+        });
+        return parts.length > 0 ? parts.join(" | ") : "unknown";
+    };
+
+    // Declares the interface (nested ones after their parent) and returns its name
+    const declare = (shape: Shape, base: string): string => {
+        const name = uniqueName(toPascalCase(base));
+        const index = declarations.length;
+        declarations.push("");
+        const lines = [...shape.properties].map(([key, property]) => {
+            const optional = property.count < shape.objectCount ? "?" : "";
+            return `    ${formatKey(key)}${optional}: ${typeOf(property.shape, key)};`;
+        });
+        declarations[index] = `export interface ${name} {\n${lines.join("\n")}\n}`;
+        return name;
+    };
+
+    declare(shapeOfRows(rows, columns), rootName);
+    return declarations.join("\n\n") + "\n";
+};
+
+/**
+ * The row interface name for a file: "orders.json" → "Order", "price-list.csv" → "PriceList".
+ */
+export const typeNameForFile = (fileName: string | null): string => {
+    const base = fileName?.replace(/\.[^.]+$/, "");
+    return base && /[A-Za-z]/.test(base) ? toPascalCase(singular(base).replace(/Item$/, "")) : "Row";
+};
@@ -0,0 +1,145 @@
+import { parseNumber, type CellValue, type TableRow } from "@/lib/data-utils";
+
+export interface SearchOptions {
+    query: string;
+    regex: boolean;
+    caseSensitive: boolean;
+}
+
+/** A cell containing at least one match. row is an index into data. */
+export interface SearchMatch {
+    row: number;
+    col: string;
+}
+
+const escapeRegExp = (str: string) => str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Compiles the search into a global RegExp, or null when the query is empty or not a valid regex.
+ */
+export const buildMatcher = (options: SearchOptions): RegExp | null => {
+    if (!options.query) return null;
+    try {
+        const source = options.regex ? options.query : escapeRegExp(options.query);
+        const re = new RegExp(source, options.caseSensitive ? "g" : "gi");
+        // A pattern that matches the empty string would "match" every cell
+        if (re.test("")) return null;
+        return re;
+    } catch {
+        return null;
+    }
+};
+
+const testString = (str: string, re: RegExp): boolean => {
+    re.lastIndex = 0;
+    return re.test(str);
+};
+
+/**
+ * True when the value, or anything nested inside it (object values, array items), matches.
+ */
+export const valueMatches = (value: unknown, re: RegExp): boolean => {
+    if (value === null || value === undefined) return false;
+    if (Array.isArray(value)) return value.some(item => valueMatches(item, re));
+    if (typeof value === "object") return Object.values(value).some(item => valueMatches(item, re));
+    return testString(String(value), re);
+};
+
+export const findMatches = (data: TableRow[], columns: string[], re: RegExp | null): SearchMatch[] => {
+    if (!re) return [];
+    const matches: SearchMatch[] = [];
+    data.forEach((row, rowIdx) => {
+        columns.forEach(col => {
+            if (valueMatches(row[col], re)) matches.push({ row: rowIdx, col });
+        });
+    });
+    return matches;
+};
+
+/**
+ * Reading position of a cell in the table as shown (sorted and filtered rows, then columns),
+ * or -1 when its row is filtered out or its column isn't shown.
+ */
+export const cellRankInView = (viewOrder: number[], columns: string[]): ((cell: SearchMatch) => number) => {
+    const rowPosition = new Map<number, number>();
+    viewOrder.forEach((row, idx) => rowPosition.set(row, idx));
+    const colPosition = new Map(columns.map((col, idx) => [col, idx]));
+    return cell => {
+        const rowPos = rowPosition.get(cell.row);
+        const colPos = colPosition.get(cell.col);
+        return rowPos === undefined || colPos === undefined ? -1 : rowPos * columns.length + colPos;
+    };
+};
+
+/**
+ * Puts cells (search hits, schema errors) in the order the table shows them.
+ * Cells the table doesn't show are left out and only counted, so stepping through the list never lands on a hidden row.
+ */
+export const inViewOrder = <T extends SearchMatch>(cells: T[], rank: (cell: SearchMatch) => number): { cells: T[]; hidden: number } => {
+    const ranked = cells.map(cell => ({ cell, rank: rank(cell) })).filter(entry => entry.rank >= 0);
+    ranked.sort((a, b) => a.rank - b.rank);
+    return { cells: ranked.map(entry => entry.cell), hidden: cells.length - ranked.length };
+};
+
+/**
+ * Replaces every match inside a value, recursing into nested objects and arrays.
+ * Numbers and booleans stay numbers and booleans when the replaced text still parses as one.
+ */
+export const replaceInValue = (value: unknown, re: RegExp, replacement: string): { value: unknown; count: number } => {
+    if (value === null || value === undefined) return { value, count: 0 };
+
+    if (Array.isArray(value)) {
+        let count = 0;
+        const next = value.map(item => {
+            const result = replaceInValue(item, re, replacement);
+            count += result.count;
+            return result.value;
+        });
+        return count > 0 ? { value: next, count } : { value, count: 0 };
+    }
+
+    if (typeof value === "object") {
+        let count = 0;
+        const next: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value)) {
+            const result = replaceInValue(item, re, replacement);
+            count += result.count;
+            next[key] = result.value;
+        }
+        return count > 0 ? { value: next, count } : { value, count: 0 };
+    }
+
+    const str = String(value);
+    const count = str.match(re)?.length ?? 0;
+    if (count === 0) return { value, count: 0 };
+
+    const replaced = str.replace(re, replacement);
+    const num = typeof value === "number" ? parseNumber(replaced) : null;
+    if (num !== null) return { value: num, count };
+    if (typeof value === "boolean" && (replaced === "true" || replaced === "false")) {
+        return { value: replaced === "true", count };
+    }
+    return { value: replaced, count };
+};
+
+/**
+ * The replacement string as String.replace should see it: literal searches must not expand $1, $& etc.
+ */
+export const toReplacement = (replacement: string, options: SearchOptions): string =>
+    options.regex ? replacement : replacement.replace(/\$/g, "$$$$");
+
+/**
+ * Replaces in the given cells only, returning a new data array (rows without matches are shared).
+ */
+export const replaceInCells = (data: TableRow[], cells: SearchMatch[], re: RegExp, replacement: string): { data: TableRow[]; count: number } => {
+    let count = 0;
+    const next = [...data];
+    cells.forEach(({ row, col }) => {
+        const result = replaceInValue(next[row][col], re, replacement);
+        if (result.count > 0) {
+            count += result.count;
+            next[row] = { ...next[row], [col]: result.value as CellValue };
+        }
+    });
+    return { data: count > 0 ? next : data, count };
+};
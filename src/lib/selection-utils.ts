@@ -0,0 +1,29 @@
+/** A cell by position in the table's view: row is a view row (after sort and filter), col a visible column index. */
+export interface CellPosition {
+    row: number;
+    col: number;
+}
+
+/** A rectangular block of cells, bounds inclusive. */
+export interface CellRange {
+    top: number;
+    left: number;
+    bottom: number;
+    right: number;
+}
+
+/**
+ * The block spanned by two corners, in any order.
+ */
+export const rangeFromPoints = (a: CellPosition, b: CellPosition): CellRange => ({
+    top: Math.min(a.row, b.row),
+    left: Math.min(a.col, b.col),
+    bottom: Math.max(a.row, b.row),
+    right: Math.max(a.col, b.col),
+});
+
+export const rangeRowCount = (range: CellRange): number => range.bottom - range.top + 1;
+
+export const rangeColumnCount = (range: CellRange): number => range.right - range.left + 1;
+
+export const rangeCellCount = (range: CellRange): number => rangeRowCount(range) * rangeColumnCount(range);
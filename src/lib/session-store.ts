@@ -0,0 +1,42 @@
+/**
+ * Minimal IndexedDB key/value store for the workspace session.
+ * IndexedDB (unlike localStorage) stores structured data without stringifying it and has room for large files and their undo history.
+ */
+
+const DB_NAME = "jte";
+const DB_VERSION = 1;
+const STORE = "session";
+
+const openDB = (): Promise<IDBDatabase> =>
+    new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const db = await openDB();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const tx = db.transaction(STORE, mode);
+            const request = action(tx.objectStore(STORE));
+            tx.oncomplete = () => resolve(request.result as T);
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    } finally {
+        db.close();
+    }
+};
+
+export const loadValue = <T>(key: string): Promise<T | undefined> =>
+    run<T | undefined>("readonly", store => store.get(key));
+
+export const saveValue = (key: string, value: unknown): Promise<void> =>
+    run<void>("readwrite", store => store.put(value, key));
+
+export const deleteValue = (key: string): Promise<void> =>
+    run<void>("readwrite", store => store.delete(key));
@@ -0,0 +1,124 @@
+import type { ColumnSchema, ColumnType, TableRow } from "@/lib/data-utils";
+
+export type SortDirection = "asc" | "desc";
+
+export interface SortKey {
+    column: string;
+    direction: SortDirection;
+}
+
+/**
+ * View-only sort state. The first key is the primary sort, later keys break ties.
+ * Sorting never touches the underlying data unless it is explicitly applied.
+ */
+export interface SortConfig {
+    keys: SortKey[];
+}
+
+// Matches 2024-01-31, 2024-1-5, 2024-01-31T10:00:00Z, 2024-01-31 10:00:00.000+02:00
+const DATE_LIKE = /^\d{4}-\d{1,2}-\d{1,2}([T ]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+export const isDateLike = (value: unknown): value is string =>
+    typeof value === "string" && DATE_LIKE.test(value.trim()) && !isNaN(Date.parse(value.trim()));
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" });
+
+/**
+ * A value reduced to something cheap to compare.
+ * Groups order values of different kinds: numbers/ranks first, then dates, then plain text.
+ */
+type SortValue = { group: number; num: number; str: string } | null;
+
+const toSortValue = (value: unknown, type: ColumnType | undefined): SortValue => {
+    if (value === null || value === undefined) return null;
+
+    switch (type) {
+        case "number": {
+            const num = typeof value === "number" ? value
+                : typeof value === "boolean" ? Number(value)
+                    : typeof value === "string" && value.trim() !== "" ? Number(value) : NaN;
+            if (!isNaN(num)) return { group: 0, num, str: "" };
+            break;
+        }
+        case "boolean":
+            if (typeof value === "boolean") return { group: 0, num: value ? 1 : 0, str: "" };
+            if (value === "true" || value === "false") return { group: 0, num: value === "true" ? 1 : 0, str: "" };
+            break;
+        case "list":
+            if (Array.isArray(value)) return { group: 0, num: value.length, str: "" };
+            break;
+        case "object":
+            if (typeof value === "object" && !Array.isArray(value)) return { group: 0, num: Object.keys(value).length, str: "" };
+            break;
+        default:
+            // Text / auto: compare by what the value actually is
+            if (typeof value === "number") return { group: 0, num: value, str: "" };
+            if (typeof value === "boolean") return { group: 0, num: value ? 1 : 0, str: "" };
+            if (isDateLike(value)) return { group: 1, num: Date.parse(value.trim()), str: "" };
+            break;
+    }
+
+    // Anything that doesn't fit the column type sorts as text after the typed values
+    const str = typeof value === "object" ? JSON.stringify(value) : String(value);
+    return { group: 2, num: 0, str };
+};
+
+const compareSortValues = (a: SortValue, b: SortValue, direction: SortDirection): number => {
+    // Missing values always sink to the bottom, regardless of direction
+    if (a === null || b === null) {
+        if (a === b) return 0;
+        return a === null ? 1 : -1;
+    }
+
+    let result: number;
+    if (a.group !== b.group) result = a.group - b.group;
+    else if (a.group === 2) result = collator.compare(a.str, b.str);
+    else result = a.num - b.num;
+
+    return direction === "asc" ? result : -result;
+};
+
+/**
+ * Returns the data indices in display order. Rows that compare equal keep their original order.
+ */
+export const sortRowIndices = (data: TableRow[], config: SortConfig | null | undefined, schema?: ColumnSchema): number[] => {
+    const indices = data.map((_, idx) => idx);
+    if (!config || config.keys.length === 0) return indices;
+
+    // Normalise every sort column once instead of on each comparison
+    const normalised = config.keys.map(key =>
+        data.map(row => toSortValue(row[key.column], schema?.[key.column]))
+    );
+
+    return indices.sort((a, b) => {
+        for (let k = 0; k < config.keys.length; k++) {
+            const result = compareSortValues(normalised[k][a], normalised[k][b], config.keys[k].direction);
+            if (result !== 0) return result;
+        }
+        return a - b;
+    });
+};
+
+/**
+ * Computes the sort state after clicking a column header.
+ * A plain click sorts by that column alone (asc → desc → off).
+ * An additive (shift) click adds the column as a tie-breaker, flips it, or removes it.
+ */
+export const nextSortConfig = (config: SortConfig | null, column: string, additive: boolean): SortConfig | null => {
+    const keys = config?.keys ?? [];
+    const existing = keys.find(k => k.column === column);
+
+    if (!additive) {
+        if (keys.length === 1 && existing) {
+            return existing.direction === "asc" ? { keys: [{ column, direction: "desc" }] } : null;
+        }
+        return { keys: [{ column, direction: "asc" }] };
+    }
+
+    if (!existing) return { keys: [...keys, { column, direction: "asc" }] };
+    if (existing.direction === "asc") {
+        return { keys: keys.map(k => k.column === column ? { column, direction: "desc" } : k) };
+    }
+    const remaining = keys.filter(k => k.column !== column);
+    return remaining.length > 0 ? { keys: remaining } : null;
+};
@@ -0,0 +1,86 @@
+import type { ColumnType, TableRow } from "@/lib/data-utils";
+
+/** What a cell holds. "missing" is a row without the key, "null" a row with null. */
+export type ValueKind = "number" | "string" | "boolean" | "array" | "object" | "null" | "missing";
+
+export type KindCounts = Record<ValueKind, number>;
+
+export interface ColumnTypeReport {
+    counts: KindCounts;
+    /** The most common kind of value (ignoring null and missing), or null for an empty column */
+    dominant: ValueKind | null;
+    /** More than one kind of value (ignoring null and missing) */
+    isMixed: boolean;
+    /** Rows (indices into data) whose value is of another kind than the dominant one */
+    outliers: number[];
+}
+
+/** Display order, also the tie-break for the dominant kind. */
+export const VALUE_KINDS: ValueKind[] = ["number", "string", "boolean", "array", "object", "null", "missing"];
+
+const emptyCounts = (): KindCounts => ({ number: 0, string: 0, boolean: 0, array: 0, object: 0, null: 0, missing: 0 });
+
+export const kindOf = (value: unknown): ValueKind => {
+    if (value === undefined) return "missing";
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    if (typeof value === "object") return "object";
+    if (typeof value === "number" || typeof value === "boolean") return typeof value as ValueKind;
+    return "string";
+};
+
+/**
+ * Counts every value of the column, unlike inferSchema which only looks at the first one.
+ */
+export const columnTypeReport = (rows: TableRow[], col: string): ColumnTypeReport => {
+    const counts = emptyCounts();
+    rows.forEach(row => counts[kindOf(row[col])]++);
+
+    const valueKinds = VALUE_KINDS.filter(kind => kind !== "null" && kind !== "missing" && counts[kind] > 0);
+    const dominant = valueKinds.reduce<ValueKind | null>((best, kind) => (best === null || counts[kind] > counts[best] ? kind : best), null);
+
+    const outliers: number[] = [];
+    if (valueKinds.length > 1) {
+        rows.forEach((row, idx) => {
+            const kind = kindOf(row[col]);
+            if (kind !== dominant && kind !== "null" && kind !== "missing") outliers.push(idx);
+        });
+    }
+
+    return { counts, dominant, isMixed: valueKinds.length > 1, outliers };
+};
+
+/**
+ * The column type that holds values of this kind, for converting the outliers.
+ */
+export const columnTypeForKind = (kind: ValueKind | null): ColumnType | null => {
+    switch (kind) {
+        case "number": return "number";
+        case "string": return "text";
+        case "boolean": return "boolean";
+        case "array": return "list";
+        case "object": return "object";
+        default: return null;
+    }
+};
+
+/** "number", "text"… as the editor calls them. */
+export const KIND_LABELS: Record<ValueKind, string> = {
+    number: "number",
+    string: "text",
+    boolean: "boolean",
+    array: "list",
+    object: "object",
+    null: "null",
+    missing: "missing",
+};
+
+/**
+ * "95 number, 5 text, 2 null": the non-zero counts, most common first.
+ */
+export const describeCounts = (counts: KindCounts): string =>
+    VALUE_KINDS
+        .filter(kind => counts[kind] > 0)
+        .sort((a, b) => counts[b] - counts[a])
+        .map(kind => `${counts[kind]} ${KIND_LABELS[kind]}`)
+        .join(", ");